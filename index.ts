@@ -8,12 +8,14 @@ async function main() {
   const args = process.argv.slice(2);
 
   if (args.length === 0) {
-    console.error("Usage: vps <command> [arguments]");
+    console.error("Usage: vps <command> [--host <name>] [arguments]");
     console.error("\nAvailable commands:");
     console.error("  git        Git repository management");
     console.error("  audit      Security audit");
     console.error("  compose    Docker Compose management");
     console.error("  provision  Provision a new VPS");
+    console.error("  hostkey    Show, re-pin or rotate the pinned host key");
+    console.error("  secrets    Manage the local encrypted secrets vault");
     process.exit(1);
   }
 
@@ -37,9 +39,17 @@ async function main() {
       case "provision":
         await import("./src/commands/provision.js");
         break;
+      case "hostkey":
+        await import("./src/commands/hostkey.js");
+        break;
+      case "secrets":
+        await import("./src/commands/secrets.js");
+        break;
       default:
         console.error(`Unknown command: ${command}`);
-        console.error("Available commands: git, audit, compose, provision");
+        console.error(
+          "Available commands: git, audit, compose, provision, hostkey, secrets"
+        );
         process.exit(1);
     }
   } catch (error) {
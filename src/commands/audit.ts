@@ -1,44 +1,95 @@
 #!/usr/bin/env bun
-import { loadVPSConfig, getConfigWithOverrides } from "../lib/config";
+import {
+  loadVPSConfig,
+  getConfigWithOverrides,
+  extractHostOption,
+  getSSHOptions,
+} from "../lib/config";
 import { log } from "../lib/logger";
-import { sshExec, filterMOTDFromOutput } from "../lib/ssh";
+import { sshExec } from "../lib/ssh";
+import { runRemoteProbe } from "../lib/script";
+import { probeFail2Ban } from "../lib/audit";
 import type { AuditResults, SSHConfig, ExposedPort } from "../lib/types";
 
 /**
- * Parse SSH configuration from remote script output
- * The remote script outputs lines like "PERMIT_ROOT=no"
+ * UFW probe result
  */
-function parseSSHConfig(output: string): SSHConfig {
-  const config: Partial<SSHConfig> = {};
-
-  // Parse lines like "PERMIT_ROOT=no"
-  for (const line of output.split("\n")) {
-    const trimmed = line.trim();
-    if (trimmed.startsWith("PERMIT_ROOT=")) {
-      config.permitRootLogin = trimmed.split("=")[1] || "unknown";
-    } else if (trimmed.startsWith("PASSWORD_AUTH=")) {
-      config.passwordAuthentication = trimmed.split("=")[1] || "unknown";
-    } else if (trimmed.startsWith("CHALLENGE_RESP=")) {
-      // Handle empty string - if value is empty, treat as "no" (disabled)
-      const value = trimmed.split("=")[1] || "";
-      config.challengeResponseAuthentication = value === "" ? "no" : value;
-    } else if (trimmed.startsWith("ALLOW_USERS=")) {
-      config.allowUsers = trimmed.split("=").slice(1).join("=") || "not set";
-    } else if (trimmed.startsWith("USE_DNS=")) {
-      config.useDNS = trimmed.split("=")[1] || "unknown";
-    }
-  }
+interface UfwProbe {
+  status: string;
+  service: string;
+  enabled: string;
+}
+
+/**
+ * Unattended upgrades probe result
+ */
+interface UnattendedUpgradesProbe {
+  enabled: boolean;
+  active: boolean;
+}
+
+/**
+ * Security updates probe result
+ */
+interface UpdatesProbe {
+  securityUpdates: number;
+}
+
+/**
+ * Docker probe result
+ */
+interface DockerProbe {
+  installed: boolean;
+  version: string;
+  daemonJson: string;
+  usernsActive: boolean;
+  groups: string;
+}
+
+/**
+ * Timezone and NTP probe result
+ */
+interface TimeProbe {
+  timezone: string;
+  ntpActive: boolean;
+}
+
+/**
+ * Listening sockets probe result (output of ss)
+ */
+interface ListeningProbe {
+  sockets: string;
+}
 
+/**
+ * Fill in defaults for SSH configuration values sshd -T didn't report
+ */
+function normalizeSSHConfig(probe: Partial<SSHConfig>): SSHConfig {
   return {
-    permitRootLogin: config.permitRootLogin || "unknown",
-    passwordAuthentication: config.passwordAuthentication || "unknown",
+    permitRootLogin: probe.permitRootLogin || "unknown",
+    passwordAuthentication: probe.passwordAuthentication || "unknown",
+    // Not reported at all means disabled
     challengeResponseAuthentication:
-      config.challengeResponseAuthentication || "no",
-    allowUsers: config.allowUsers || "not set",
-    useDNS: config.useDNS || "unknown",
+      probe.challengeResponseAuthentication || "no",
+    allowUsers: probe.allowUsers || "not set",
+    useDNS: probe.useDNS || "unknown",
   };
 }
 
+/**
+ * Parse /etc/docker/daemon.json content, returns null when it isn't valid
+ */
+function parseDaemonJson(content: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return parsed && typeof parsed === "object"
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Parse listening ports from ss output
  */
@@ -156,12 +207,12 @@ function parseListeningPorts(ssOutput: string): {
  * Main audit function
  */
 async function audit(): Promise<void> {
-  const args = process.argv.slice(2);
+  const { hostName, args } = extractHostOption(process.argv.slice(2));
   const user = args[0];
   const host = args[1];
 
   // Load config and allow command-line overrides
-  const baseConfig = await loadVPSConfig();
+  const baseConfig = await loadVPSConfig(hostName);
   const config = getConfigWithOverrides(baseConfig, {
     vpsUser: user || baseConfig.vpsUser,
     vpsHost: host || baseConfig.vpsHost,
@@ -169,7 +220,7 @@ async function audit(): Promise<void> {
 
   if (!config.vpsUser || !config.vpsHost) {
     log.error(
-      "SSH user and host are required. Set VPS_USER and VPS_HOST in .env or pass as arguments."
+      "SSH user and host are required. Select a host with --host, set VPS_USER and VPS_HOST in .env or pass as arguments."
     );
     process.exit(1);
   }
@@ -209,13 +260,10 @@ async function audit(): Promise<void> {
   // ======================
   log.info("Testing SSH connectivity...");
   try {
-    const testResult = await sshExec("echo OK", {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      batchMode: true,
-      connectTimeout: 5,
-      quiet: true,
-    });
+    const testResult = await sshExec(
+      "echo OK",
+      getSSHOptions(config, { batchMode: true, connectTimeout: 5, quiet: true })
+    );
 
     if (testResult.success) {
       checkPass("SSH connection successful");
@@ -234,82 +282,62 @@ async function audit(): Promise<void> {
   // ======================
   log.info("Checking SSH hardening...");
   const sshCheckScript = `
-set -e
-SSHD_CONF=$(sudo sshd -T 2>/dev/null || echo "")
+SSHD_CONF=$(sudo sshd -T 2>/dev/null) || { echo "Could not get SSH config"; exit 1; }
 
-if [ -z "$SSHD_CONF" ]; then
-  echo "ERROR: Could not get SSH config"
-  exit 1
-fi
+value() {
+  printf '%s\\n' "$SSHD_CONF" | awk -v key="$1" 'tolower($1) == key { $1 = ""; sub(/^ /, ""); print; exit }'
+}
 
-PERMIT_ROOT=$(echo "$SSHD_CONF" | grep -i "^permitrootlogin" | awk '{print $2}' || echo "unknown")
-PASSWORD_AUTH=$(echo "$SSHD_CONF" | grep -i "^passwordauthentication" | awk '{print $2}' || echo "unknown")
-CHALLENGE_RESP=$(echo "$SSHD_CONF" | grep -i "^challengeresponseauthentication" | awk '{print $2}' || echo "unknown")
-ALLOW_USERS=$(echo "$SSHD_CONF" | grep -i "^allowusers" | awk '{print $2}' || echo "not set")
-USE_DNS=$(echo "$SSHD_CONF" | grep -i "^usedns" | awk '{print $2}' || echo "unknown")
-
-echo "PERMIT_ROOT=$PERMIT_ROOT"
-echo "PASSWORD_AUTH=$PASSWORD_AUTH"
-echo "CHALLENGE_RESP=$CHALLENGE_RESP"
-echo "ALLOW_USERS=$ALLOW_USERS"
-echo "USE_DNS=$USE_DNS"
+emit \\
+  permitRootLogin "$(value permitrootlogin)" \\
+  passwordAuthentication "$(value passwordauthentication)" \\
+  challengeResponseAuthentication "$(value challengeresponseauthentication)" \\
+  allowUsers "$(value allowusers)" \\
+  useDNS "$(value usedns)"
 `;
 
   try {
-    const sshCheckResult = await sshExec(sshCheckScript, {
-      host: config.vpsHost,
-      user: config.vpsUser,
-    });
+    const sshConfig = normalizeSSHConfig(
+      await runRemoteProbe<SSHConfig>(sshCheckScript, getSSHOptions(config))
+    );
 
-    if (!sshCheckResult.success) {
-      checkFail("Could not retrieve SSH configuration");
-      log.blank();
+    log.raw(`PermitRootLogin: ${sshConfig.permitRootLogin}`);
+    if (sshConfig.permitRootLogin.toLowerCase() === "no") {
+      checkPass("Root login disabled");
     } else {
-      const sshConfig = parseSSHConfig(sshCheckResult.stdout);
-
-      log.raw(`PermitRootLogin: ${sshConfig.permitRootLogin}`);
-      if (sshConfig.permitRootLogin.toLowerCase() === "no") {
-        checkPass("Root login disabled");
-      } else {
-        checkFail("Root login is enabled (should be 'no')");
-      }
+      checkFail("Root login is enabled (should be 'no')");
+    }
 
-      log.raw(`PasswordAuthentication: ${sshConfig.passwordAuthentication}`);
-      if (sshConfig.passwordAuthentication.toLowerCase() === "no") {
-        checkPass("Password authentication disabled");
-      } else {
-        checkFail("Password authentication enabled (should be 'no')");
-      }
+    log.raw(`PasswordAuthentication: ${sshConfig.passwordAuthentication}`);
+    if (sshConfig.passwordAuthentication.toLowerCase() === "no") {
+      checkPass("Password authentication disabled");
+    } else {
+      checkFail("Password authentication enabled (should be 'no')");
+    }
 
-      log.raw(
-        `ChallengeResponseAuthentication: ${
-          sshConfig.challengeResponseAuthentication || "(empty/disabled)"
-        }`
-      );
-      if (
-        sshConfig.challengeResponseAuthentication.toLowerCase() === "no" ||
-        sshConfig.challengeResponseAuthentication === ""
-      ) {
-        checkPass("Challenge-response authentication disabled");
-      } else {
-        checkWarn("Challenge-response authentication enabled (should be 'no')");
-      }
+    log.raw(
+      `ChallengeResponseAuthentication: ${sshConfig.challengeResponseAuthentication}`
+    );
+    if (sshConfig.challengeResponseAuthentication.toLowerCase() === "no") {
+      checkPass("Challenge-response authentication disabled");
+    } else {
+      checkWarn("Challenge-response authentication enabled (should be 'no')");
+    }
 
-      log.raw(`AllowUsers: ${sshConfig.allowUsers}`);
-      if (sshConfig.allowUsers === config.vpsUser) {
-        checkPass(`AllowUsers restricts access to ${config.vpsUser}`);
-      } else if (sshConfig.allowUsers === "not set") {
-        checkWarn("AllowUsers not configured");
-      } else {
-        checkWarn(`AllowUsers set to: ${sshConfig.allowUsers}`);
-      }
+    log.raw(`AllowUsers: ${sshConfig.allowUsers}`);
+    if (sshConfig.allowUsers === config.vpsUser) {
+      checkPass(`AllowUsers restricts access to ${config.vpsUser}`);
+    } else if (sshConfig.allowUsers === "not set") {
+      checkWarn("AllowUsers not configured");
+    } else {
+      checkWarn(`AllowUsers set to: ${sshConfig.allowUsers}`);
+    }
 
-      log.raw(`UseDNS: ${sshConfig.useDNS}`);
-      if (sshConfig.useDNS.toLowerCase() === "no") {
-        checkPass("UseDNS disabled (faster connections)");
-      } else {
-        checkWarn("UseDNS enabled (may slow connections)");
-      }
+    log.raw(`UseDNS: ${sshConfig.useDNS}`);
+    if (sshConfig.useDNS.toLowerCase() === "no") {
+      checkPass("UseDNS disabled (faster connections)");
+    } else {
+      checkWarn("UseDNS enabled (may slow connections)");
     }
   } catch (error) {
     checkFail("Could not retrieve SSH configuration");
@@ -320,62 +348,32 @@ echo "USE_DNS=$USE_DNS"
   // FIREWALL STATUS
   // ======================
   log.info("Checking firewall (ufw)...");
+  const ufwScript = `
+emit \\
+  status "$(sudo ufw status verbose 2>/dev/null)" \\
+  service "$(systemctl is-active ufw 2>/dev/null)" \\
+  enabled "$(systemctl is-enabled ufw 2>/dev/null)"
+`;
+
   try {
-    const ufwResult = await sshExec(
-      'sudo ufw status verbose 2>/dev/null || echo ""',
-      {
-        host: config.vpsHost,
-        user: config.vpsUser,
-      }
+    const ufw = await runRemoteProbe<UfwProbe>(
+      ufwScript,
+      getSSHOptions(config)
     );
+    const ufwStatus = ufw.status?.trim() ?? "";
 
-    let ufwStatus = ufwResult.stdout;
-
-    // Filter MOTD: find where actual UFW output starts (look for "Status:")
-    const originalOutput = ufwStatus;
-    ufwStatus = filterMOTDFromOutput(ufwStatus, "Status:");
-
-    // Always show UFW status output for debugging
-    if (ufwStatus.trim()) {
+    if (ufwStatus) {
       log.raw(ufwStatus);
     } else {
       log.warn("UFW command returned no output");
-      // Show raw output for debugging
-      if (originalOutput.trim()) {
-        log.raw("Raw output (before filtering):");
-        log.raw(originalOutput);
-      }
     }
 
-    // Additional diagnostic: check if UFW is installed and service status
-    const ufwServiceResult = await sshExec(
-      'systemctl is-active ufw 2>/dev/null || echo "inactive"',
-      {
-        host: config.vpsHost,
-        user: config.vpsUser,
-      }
-    );
-    const ufwEnabledResult = await sshExec(
-      'systemctl is-enabled ufw 2>/dev/null || echo "disabled"',
-      {
-        host: config.vpsHost,
-        user: config.vpsUser,
-      }
-    );
-
-    log.raw(`UFW service status: ${ufwServiceResult.stdout.trim()}`);
-    log.raw(`UFW enabled on boot: ${ufwEnabledResult.stdout.trim()}`);
-
-    // More robust check: case-insensitive and handle whitespace
-    const ufwStatusLower = ufwStatus.toLowerCase();
-    const isActive =
-      ufwStatusLower.includes("status: active") ||
-      ufwStatusLower.includes("status:active") ||
-      ufwStatusLower.match(/status:\s*active/i);
+    log.raw(`UFW service status: ${ufw.service || "inactive"}`);
+    log.raw(`UFW enabled on boot: ${ufw.enabled || "disabled"}`);
 
-    if (isActive) {
+    if (/^Status:\s*active\s*$/im.test(ufwStatus)) {
       checkPass("UFW firewall is active");
-      if (ufwStatusLower.includes("openssh")) {
+      if (/openssh/i.test(ufwStatus)) {
         checkPass("OpenSSH allowed in firewall");
       } else {
         checkFail("OpenSSH not explicitly allowed in firewall");
@@ -385,10 +383,6 @@ echo "USE_DNS=$USE_DNS"
       // Show helpful message about how to enable it
       log.info("To enable UFW, run on the VPS: sudo ufw enable");
       log.info("Make sure to allow SSH first: sudo ufw allow OpenSSH");
-      // Debug: show what we're checking
-      log.raw(`Debug: Checking for "Status: active" in output`);
-      log.raw(`Debug: Filtered output length: ${ufwStatus.length}`);
-      log.raw(`Debug: First 100 chars: ${ufwStatus.substring(0, 100)}`);
     }
   } catch (error) {
     checkFail("Could not check firewall status");
@@ -399,40 +393,15 @@ echo "USE_DNS=$USE_DNS"
   // FAIL2BAN STATUS
   // ======================
   log.info("Checking Fail2Ban...");
-  const fail2banScript = `
-if systemctl is-active --quiet fail2ban 2>/dev/null; then
-  echo "ACTIVE"
-  echo "===FAIL2BAN_OUTPUT_START==="
-  sudo fail2ban-client status sshd 2>/dev/null || echo "NO_JAIL"
-  echo "===FAIL2BAN_OUTPUT_END==="
-else
-  echo "INACTIVE"
-fi
-`;
-
   try {
-    const fail2banResult = await sshExec(fail2banScript, {
-      host: config.vpsHost,
-      user: config.vpsUser,
-    });
+    const fail2ban = await probeFail2Ban(getSSHOptions(config));
 
-    const fail2banStatus = fail2banResult.stdout;
-    if (fail2banStatus.includes("ACTIVE")) {
+    if (fail2ban.active) {
       checkPass("Fail2Ban is running");
-      // Extract output between markers
-      const startMarker = "===FAIL2BAN_OUTPUT_START===";
-      const endMarker = "===FAIL2BAN_OUTPUT_END===";
-      const startIdx = fail2banStatus.indexOf(startMarker);
-      const endIdx = fail2banStatus.indexOf(endMarker);
-      if (startIdx !== -1 && endIdx !== -1) {
-        const output = fail2banStatus
-          .slice(startIdx + startMarker.length, endIdx)
-          .split("\n")
-          .filter((line) => line.trim() && !line.includes("==="))
-          .join("\n");
-        if (output) log.raw(output);
+      if (fail2ban.jailStatus?.trim()) {
+        log.raw(fail2ban.jailStatus.trim());
       }
-      if (fail2banStatus.includes("NO_JAIL")) {
+      if (!fail2ban.jailConfigured) {
         checkWarn("Fail2Ban active but sshd jail not configured");
       }
     } else {
@@ -448,26 +417,22 @@ fi
   // ======================
   log.info("Checking unattended upgrades...");
   const unattendedScript = `
-if systemctl is-enabled --quiet unattended-upgrades 2>/dev/null; then
-  echo "ENABLED"
-  if systemctl is-active --quiet unattended-upgrades 2>/dev/null; then
-    echo "ACTIVE"
-  fi
-else
-  echo "DISABLED"
-fi
+ENABLED=false
+ACTIVE=false
+systemctl is-enabled --quiet unattended-upgrades 2>/dev/null && ENABLED=true
+systemctl is-active --quiet unattended-upgrades 2>/dev/null && ACTIVE=true
+emit_json "{\\"enabled\\": $ENABLED, \\"active\\": $ACTIVE}"
 `;
 
   try {
-    const unattendedResult = await sshExec(unattendedScript, {
-      host: config.vpsHost,
-      user: config.vpsUser,
-    });
+    const unattended = await runRemoteProbe<UnattendedUpgradesProbe>(
+      unattendedScript,
+      getSSHOptions(config)
+    );
 
-    const unattendedStatus = unattendedResult.stdout;
-    if (unattendedStatus.includes("ENABLED")) {
+    if (unattended.enabled) {
       checkPass("Unattended upgrades enabled");
-      if (unattendedStatus.includes("ACTIVE")) {
+      if (unattended.active) {
         checkPass("Unattended upgrades service active");
       } else {
         checkWarn("Unattended upgrades enabled but service not active");
@@ -484,20 +449,17 @@ fi
   // SYSTEM UPDATES
   // ======================
   log.info("Checking for available security updates...");
+  const updatesScript = `
+COUNT=$(apt list --upgradable 2>/dev/null | grep -c "security")
+emit_json "{\\"securityUpdates\\": \${COUNT:-0}}"
+`;
+
   try {
-    const updateResult = await sshExec(
-      'apt list --upgradable 2>/dev/null | grep -c "security" || echo "0"',
-      {
-        host: config.vpsHost,
-        user: config.vpsUser,
-      }
+    const updates = await runRemoteProbe<UpdatesProbe>(
+      updatesScript,
+      getSSHOptions(config)
     );
-
-    // The output should be just a number (line count from grep -c)
-    // Extract only the first number found, ignoring any other text
-    const output = updateResult.stdout.trim();
-    const numberMatch = output.match(/^\d+/);
-    const updateCount = numberMatch ? parseInt(numberMatch[0], 10) : 0;
+    const updateCount = updates.securityUpdates ?? 0;
 
     if (updateCount === 0) {
       checkPass("No pending security updates");
@@ -514,92 +476,76 @@ fi
   // ======================
   log.info("Checking Docker security...");
   const dockerScript = `
-if command -v docker >/dev/null 2>&1; then
-  echo "INSTALLED"
-  docker version --format '{{.Server.Version}}' 2>/dev/null | head -1 || echo "ERROR"
-  
-  if [ -f /etc/docker/daemon.json ]; then
-    echo "DAEMON_JSON_EXISTS"
-    cat /etc/docker/daemon.json
-  else
-    echo "NO_DAEMON_JSON"
-  fi
-  
-  if docker info 2>/dev/null | grep -q "userns"; then
-    echo "USERNS_ENABLED"
-  else
-    echo "USERNS_DISABLED"
-  fi
-else
-  echo "NOT_INSTALLED"
+if ! command -v docker >/dev/null 2>&1; then
+  emit_json '{"installed": false}'
+  exit 0
+fi
+
+USERNS=false
+docker info 2>/dev/null | grep -q "userns" && USERNS=true
+emit_json "{\\"installed\\": true, \\"usernsActive\\": $USERNS}"
+emit \\
+  version "$(docker version --format '{{.Server.Version}}' 2>/dev/null | head -1)" \\
+  groups "$(id -nG)"
+
+if [ -f /etc/docker/daemon.json ]; then
+  emit daemonJson "$(cat /etc/docker/daemon.json)"
 fi
 `;
 
   try {
-    const dockerResult = await sshExec(dockerScript, {
-      host: config.vpsHost,
-      user: config.vpsUser,
-    });
-
-    const dockerOutput = dockerResult.stdout;
-    if (dockerOutput.includes("INSTALLED")) {
-      // Extract Docker version
-      const versionMatch = dockerOutput.match(/^(\d+\.\d+\.\d+)/m);
-      if (versionMatch && versionMatch[1] !== "ERROR") {
-        checkPass(`Docker installed (version: ${versionMatch[1]})`);
+    const docker = await runRemoteProbe<DockerProbe>(
+      dockerScript,
+      getSSHOptions(config)
+    );
+
+    if (docker.installed) {
+      if (docker.version) {
+        checkPass(`Docker installed (version: ${docker.version})`);
       } else {
         checkPass("Docker installed");
       }
 
-      if (dockerOutput.includes("DAEMON_JSON_EXISTS")) {
+      if (docker.daemonJson !== undefined) {
         checkPass("Docker daemon.json exists");
-        const daemonJsonStart = dockerOutput.indexOf("DAEMON_JSON_EXISTS");
-        const daemonJsonEnd = dockerOutput.indexOf(
-          "NO_DAEMON_JSON",
-          daemonJsonStart
-        );
-        const daemonJson = dockerOutput
-          .slice(
-            daemonJsonStart + "DAEMON_JSON_EXISTS".length,
-            daemonJsonEnd !== -1 ? daemonJsonEnd : undefined
-          )
+        const daemonJson = docker.daemonJson
           .split("\n")
           .slice(0, 5)
           .join("\n")
           .trim();
         if (daemonJson) log.raw(daemonJson);
 
-        if (dockerOutput.includes("userns-remap")) {
-          checkPass("Docker user namespace remap configured");
-        } else {
-          checkWarn(
-            "Docker user namespace remap not configured in daemon.json"
-          );
-        }
-
-        if (dockerOutput.includes("log-driver")) {
-          checkPass("Docker log driver configured");
+        const daemonConfig = parseDaemonJson(docker.daemonJson);
+        if (!daemonConfig) {
+          checkWarn("Docker daemon.json is not valid JSON");
         } else {
-          checkWarn("Docker log driver not configured");
+          if (daemonConfig["userns-remap"]) {
+            checkPass("Docker user namespace remap configured");
+          } else {
+            checkWarn(
+              "Docker user namespace remap not configured in daemon.json"
+            );
+          }
+
+          if (daemonConfig["log-driver"]) {
+            checkPass("Docker log driver configured");
+          } else {
+            checkWarn("Docker log driver not configured");
+          }
         }
       } else {
         checkWarn("Docker daemon.json not found");
       }
 
-      if (dockerOutput.includes("USERNS_ENABLED")) {
+      if (docker.usernsActive) {
         checkPass("Docker user namespace remap active");
-      } else if (dockerOutput.includes("USERNS_DISABLED")) {
+      } else {
         checkWarn("Docker user namespace remap not active");
       }
 
       // Check if user is in docker group
-      const groupsResult = await sshExec("groups", {
-        host: config.vpsHost,
-        user: config.vpsUser,
-        quiet: true,
-      });
-
-      if (groupsResult.stdout.includes("docker")) {
+      const groups = (docker.groups ?? "").split(/\s+/);
+      if (groups.includes("docker")) {
         checkPass(`User ${config.vpsUser} is in docker group`);
       } else {
         checkWarn(`User ${config.vpsUser} is NOT in docker group`);
@@ -617,27 +563,26 @@ fi
   // ======================
   log.info("Checking timezone and NTP...");
   const timezoneScript = `
-timedatectl show --property=Timezone --value 2>/dev/null || echo "unknown"
-systemctl is-active --quiet ntp 2>/dev/null && echo "NTP_ACTIVE" || echo "NTP_INACTIVE"
+NTP=false
+systemctl is-active --quiet ntp 2>/dev/null && NTP=true
+emit_json "{\\"ntpActive\\": $NTP}"
+emit timezone "$(timedatectl show --property=Timezone --value 2>/dev/null)"
 `;
 
   try {
-    const timezoneResult = await sshExec(timezoneScript, {
-      host: config.vpsHost,
-      user: config.vpsUser,
-    });
-
-    const timezoneOutput = timezoneResult.stdout;
-    const timezoneMatch = timezoneOutput.match(/^([A-Za-z]+\/[A-Za-z_]+)$/m);
-    const timezone = timezoneMatch ? timezoneMatch[1] : "unknown";
+    const time = await runRemoteProbe<TimeProbe>(
+      timezoneScript,
+      getSSHOptions(config)
+    );
+    const timezone = time.timezone?.trim();
 
-    if (timezone !== "unknown" && timezone) {
+    if (timezone) {
       checkPass(`Timezone configured: ${timezone}`);
     } else {
       checkWarn("Timezone not configured");
     }
 
-    if (timezoneOutput.includes("NTP_ACTIVE")) {
+    if (time.ntpActive) {
       checkPass("NTP service active");
     } else {
       checkWarn("NTP service not active");
@@ -651,16 +596,16 @@ systemctl is-active --quiet ntp 2>/dev/null && echo "NTP_ACTIVE" || echo "NTP_IN
   // SYSTEM EXPOSURE CHECKS
   // ======================
   log.info("Checking for listening services...");
+  const listeningScript = `
+emit sockets "$(sudo ss -tlnpen 2>/dev/null)"
+`;
+
   try {
-    const listeningResult = await sshExec(
-      'sudo ss -tlnpen 2>/dev/null || echo ""',
-      {
-        host: config.vpsHost,
-        user: config.vpsUser,
-      }
+    const { sockets: listening = "" } = await runRemoteProbe<ListeningProbe>(
+      listeningScript,
+      getSSHOptions(config)
     );
 
-    const listening = listeningResult.stdout;
     if (listening.trim()) {
       const { allPorts, exposedPorts } = parseListeningPorts(listening);
 
@@ -1,153 +1,348 @@
 #!/usr/bin/env bun
-import { loadAndValidateVPSConfig } from "../lib/config.js";
+import chalk from "chalk";
+import {
+  loadAndValidateVPSConfig,
+  extractHostOption,
+  getSSHOptions,
+} from "../lib/config.js";
 import { log } from "../lib/logger.js";
 import {
   sshExec,
+  sshExecStream,
   sshExecQuiet,
-  sshExecStdout,
+  shellCommand,
+  shellCommandIn,
+  shellQuote,
+  uploadContent,
+  uploadFile,
+  downloadContent,
+  downloadFile,
   filterMOTDFromOutput,
+  handleInterrupt,
 } from "../lib/ssh.js";
-import { getComposeHome } from "../lib/compose.js";
+import {
+  getComposeHome,
+  assertValidName,
+  destroyComposeProject,
+  getComposeFilePath,
+  readComposeFile,
+  writeComposeFile,
+  createComposeDocument,
+  getComposeConfig,
+  hasComposeService,
+  setComposeService,
+  removeComposeService,
+  addComposeVolume,
+  removeComposeVolume,
+  findOrphanedVolumes,
+  ensureComposeNetwork,
+  listComposeProjects,
+  getComposeStatus,
+  getComposeRestarts,
+  getVolumeServices,
+  findDockerVolume,
+  getComposeHashes,
+  serializeComposeDocument,
+  serializeComposeForHash,
+  parseComposeDocument,
+  getServiceEnvFilePath,
+  getServiceEnvironment,
+  addServiceEnvFile,
+  removeServiceEnvironment,
+  getSecretsDir,
+  addComposeSecret,
+  getVaultSecrets,
+  getSecretOwners,
+  getSecretServices,
+} from "../lib/compose.js";
+import {
+  getSecret,
+  openSecretsVault,
+  pushSecrets,
+  saveSecretsVault,
+  setSecret,
+} from "../lib/secrets.js";
+import { generatePassword } from "../lib/templates/credentials.js";
+import {
+  assertValidEnvKey,
+  isSecretEnvKey,
+  maskEnvValue,
+  parseEnvContent,
+  setEnvValues,
+  unsetEnvValues,
+} from "../lib/env.js";
+import {
+  PROXY_PORTS,
+  allowFirewallPorts,
+  assertValidDomain,
+  findProxyService,
+  getProxyDir,
+  parseProxySettings,
+  renderCaddyfile,
+  serializeProxySettings,
+} from "../lib/proxy.js";
+import {
+  loadTemplates,
+  getTemplate,
+  getTemplatesDir,
+  isCustomTemplate,
+  resolveTemplateParams,
+} from "../lib/templates/index.js";
+import {
+  DEFAULT_BACKUP_KEEP,
+  getBackupDir,
+  getBackupScriptPath,
+  isMysqlService,
+  mysqlRestoreCommand,
+  renderMysqlBackupScript,
+  resolveSchedule,
+  setBackupSchedule,
+  volumeBackupCommand,
+  volumeRestoreCommand,
+} from "../lib/backup.js";
 import type {
-  DockerComposeConfig,
+  ComposeContainerStatus,
   DockerComposeService,
+  TemplateContext,
+  VPSConfig,
 } from "../lib/types.js";
-import yaml from "yaml";
+import { createUnifiedDiff } from "../lib/diff.js";
+import type { Document } from "yaml";
+import { randomBytes } from "crypto";
+import { existsSync, rmSync, statSync } from "fs";
+import { basename, join, resolve } from "path";
 
 /**
  * Print usage information
  */
 function usage(): void {
-  log.raw(`Usage: bin/compose <command> [arguments]
+  log.raw(`Usage: bin/compose [--host <name>] <command> [arguments]
+
+Options:
+  --host <name>     Select a host from bin/inventory.yml
+  --yes             Don't ask for confirmation
+  --dry-run         Only show the changes to docker-compose.yml (init,
+                    add, remove, env set/unset)
 
 Environment Variables:
-  VPS_HOST          VPS hostname or IP (required)
-  VPS_USER          VPS username (required)
+  VPS_HOST          VPS hostname or IP (required without inventory)
+  VPS_USER          VPS username (required without inventory)
 
 Commands:
-  init <name>                    Initialize a new docker-compose project
-  add <project> <type> <alias>   Add a container to a project
-                                 Types: bun, mysql
-  up <project>                   Start a docker-compose project
+  init <name> [--dry-run] [--yes]
+                                 Initialize a new docker-compose project
+  list                           List the projects with their services
+  ps <project> [--json]          Show the state of a project's containers
+  logs <project> [alias ...] [--follow] [--since <time>] [--tail <n>]
+       [--grep <regex>]          Show the logs of a project's services
+  add <project> <type> <alias> [key=value ...] [--dry-run] [--yes]
+                                 Add a container to a project
+                                 (see templates for types and parameters)
+  remove <project> <alias> [--purge] [--dry-run] [--yes]
+                                 Stop and remove a container and its
+                                 orphaned volumes from a project
+                                 (--purge also deletes apps/<alias>)
+  destroy <project> [--yes]      Remove a project with its volumes and
+                                 delete its directory (archived first)
+  backup <project> <alias> [--keep <n>] [--download]
+                                 Back up the databases of a mysql service
+                                 (newest 7 backups are kept by default)
+  backup <project> <alias> --schedule <hourly|daily|weekly|cron>
+                                 Run backups from cron on the VPS
+                                 (--unschedule removes the cron entry)
+  backup <project> <alias> --list
+                                 List the backups of a mysql service
+  restore <project> <alias> <file> [--yes]
+                                 Restore a backup (local file, path on the
+                                 VPS or name of a backup) into a mysql service
+  volume backup <project> [volume] [--output <dir>] [--stop]
+                                 Download named volumes as tar.gz archives
+                                 (--stop stops the services using them)
+  volume restore <project> <volume> <file> [--yes]
+                                 Replace the contents of a volume with an
+                                 archive (its services are restarted)
+  env list <project> <alias> [--show]
+                                 List the variables of a service
+                                 (secret values are masked without --show)
+  env get <project> <alias> <KEY>
+                                 Print the value of a variable
+  env set <project> <alias> KEY=VALUE ... [--restart] [--dry-run] [--yes]
+  env unset <project> <alias> KEY ... [--restart] [--dry-run] [--yes]
+                                 Change the variables of a service (stored
+                                 in env/<alias>.env on the VPS; --restart
+                                 recreates the service to apply them)
+  templates                      List the available service types
+  route <project> <alias> <domain> <port>
+                                 Route https://<domain> to a service port
+                                 through the project's proxy service
+  up <project> [--wait] [--timeout <seconds>]
+                                 Start a docker-compose project (writes
+                                 the vault secrets it uses to the VPS);
+                                 --wait waits until its services are
+                                 healthy (120 seconds by default)
   down <project>                 Stop and remove a docker-compose project
   restart <project>              Restart a docker-compose project
   start <project> <service>      Start a specific service/container
   stop <project> <service>       Stop a specific service/container
-  exec <project> <alias> <cmd>   Execute a command in a container
+  exec [--tty] <project> <alias> <cmd>
+                                 Execute a command in a container
+                                 (arguments are passed as-is, use
+                                 sh -c "..." for shell syntax; --tty
+                                 for interactive commands)
+  shell <project> <alias> [shell]
+                                 Open an interactive shell in a container
 
 Examples:
   export VPS_HOST=192.168.1.100
   bin/compose init myapp
+  bin/compose list
+  bin/compose ps myapp
+  bin/compose logs myapp app --follow --tail 100
+  bin/compose logs myapp --since 1h --grep "error|warn"
   bin/compose add myapp bun app
   bin/compose add myapp mysql db
+  bin/compose add myapp mysql db --dry-run
+  bin/compose templates
+  bin/compose add myapp proxy proxy email=admin@example.com
+  bin/compose route myapp app example.com 3000
   bin/compose up myapp
+  bin/compose up myapp --wait --timeout 300
   bin/compose start myapp app
   bin/compose stop myapp app
   bin/compose exec myapp app bun install
+  bin/compose exec --tty myapp db mysql -u root -p
+  bin/compose shell myapp app
   bin/compose down myapp
-  bin/compose restart myapp`);
+  bin/compose restart myapp
+  bin/compose backup myapp db --download
+  bin/compose backup myapp db --schedule daily --keep 14
+  bin/compose restore myapp db db-20260101T030000Z.sql.gz
+  bin/compose volume backup myapp db_data --stop
+  bin/compose volume restore myapp db_data myapp_db_data-20260101T030000Z.tar.gz
+  bin/compose env set myapp app NODE_ENV=production API_TOKEN=abc --restart
+  bin/compose env list myapp app
+  bin/compose remove myapp db
+  bin/compose destroy myapp
+  bin/compose --host staging up myapp`);
   process.exit(1);
 }
 
 /**
- * Get Bun service configuration as an object
+ * Options of commands that change docker-compose.yml
  */
-async function getBunService(
-  projectName: string,
-  alias: string,
-  composeHome: string,
-  config: { vpsHost: string; vpsUser: string }
-): Promise<DockerComposeService> {
-  const appDir = `${composeHome}/${projectName}/apps/${alias}`;
-
-  return {
-    image: "oven/bun:latest",
-    container_name: alias,
-    userns_mode: "host",
-    working_dir: "/app",
-    volumes: [`${appDir}:/app`, `/app/node_modules`],
-    command: ["bun", "run", "--watch", "src/index.ts"],
-    networks: ["default"],
-    restart: "unless-stopped",
-    environment: {
-      NODE_ENV: "development",
-    },
-  };
+interface ChangeOptions {
+  // Only show the changes
+  dryRun: boolean;
+  // Apply the changes without asking
+  yes: boolean;
 }
 
 /**
- * Get MySQL service configuration as an object
+ * Show the changes to a project's compose file as a diff, with the services
+ * whose containers they affect (compared through docker compose config
+ * --hash), and ask for confirmation
+ * Returns whether to apply the changes (never for a dry run)
  */
-function getMysqlService(alias: string): DockerComposeService {
-  const dbName = `${alias}_db`;
-  const rootPassword = "root_password_change_me";
-  const user = `${alias}_user`;
-  const password = "user_password_change_me";
-
-  return {
-    image: "mysql:8.0",
-    container_name: alias,
-    environment: {
-      MYSQL_ROOT_PASSWORD: rootPassword,
-      MYSQL_DATABASE: dbName,
-      MYSQL_USER: user,
-      MYSQL_PASSWORD: password,
-    },
-    volumes: [`${alias}_data:/var/lib/mysql`],
-    networks: ["default"],
-    restart: "unless-stopped",
-    ports: ["127.0.0.1:3306:3306"],
-    healthcheck: {
-      test: ["CMD", "mysqladmin", "ping", "-h", "localhost"],
-      interval: "10s",
-      timeout: "5s",
-      retries: 5,
-    },
-  };
-}
+async function planComposeChange(
+  projectDir: string,
+  composeDoc: Document,
+  options: ChangeOptions,
+  config: VPSConfig
+): Promise<boolean> {
+  const composeFile = getComposeFilePath(projectDir);
+  const exists = await sshExecQuiet(
+    shellCommand(["test", "-f", composeFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
+  const current = exists.success
+    ? await downloadContent(
+        composeFile,
+        getSSHOptions(config, { agentForward: true })
+      )
+    : "";
+  const updated = serializeComposeDocument(composeDoc);
+
+  const diff = createUnifiedDiff(
+    current,
+    updated,
+    `${composeFile} (VPS)`,
+    `${composeFile} (new)`
+  );
+  if (!diff) {
+    log.info("No changes to docker-compose.yml");
+    return !options.dryRun;
+  }
 
-/**
- * Add this helper to prepare the config for YAML output with inline arrays
- */
-function prepareConfigForYaml(
-  config: DockerComposeConfig
-): DockerComposeConfig {
-  // Deep clone to avoid mutating original
-  const prepared = JSON.parse(JSON.stringify(config)) as DockerComposeConfig;
-
-  // Recursively process services to mark arrays for inline formatting
-  if (prepared.services) {
-    for (const serviceName in prepared.services) {
-      const service = prepared.services[serviceName];
-      if (service) {
-        // Ensure command is an array (already is, but ensure it's marked)
-        if (service.command && Array.isArray(service.command)) {
-          // Keep as array - yaml.stringify will handle it
-        }
-        // Ensure healthcheck.test is an array
-        if (
-          service.healthcheck?.test &&
-          Array.isArray(service.healthcheck.test)
-        ) {
-          // Keep as array
-        }
+  log.info("Changes to docker-compose.yml:");
+  log.diff(diff);
+
+  // A new project's services are all created (and its directory may not
+  // exist yet to run docker compose in)
+  const currentHashes = exists.success
+    ? await getComposeHashes(
+        projectDir,
+        serializeComposeForHash(parseComposeDocument(current)),
+        config
+      )
+    : {};
+  const updatedHashes = exists.success
+    ? await getComposeHashes(
+        projectDir,
+        serializeComposeForHash(composeDoc),
+        config
+      )
+    : Object.fromEntries(
+        Object.keys(getComposeConfig(composeDoc).services ?? {}).map(
+          (service) => [service, "new"]
+        )
+      );
+  if (!currentHashes || !updatedHashes) {
+    log.warn(
+      "Could not determine the affected containers (docker compose config failed)"
+    );
+  } else {
+    const services = new Set([
+      ...Object.keys(currentHashes),
+      ...Object.keys(updatedHashes),
+    ]);
+    const created: string[] = [];
+    const recreated: string[] = [];
+    const removed: string[] = [];
+    for (const service of services) {
+      const before = currentHashes[service];
+      const after = updatedHashes[service];
+      if (!before) {
+        created.push(service);
+      } else if (!after) {
+        removed.push(service);
+      } else if (before !== after) {
+        recreated.push(service);
       }
     }
-  }
 
-  // Ensure all volumes are empty objects
-  if (prepared.volumes) {
-    for (const volumeName in prepared.volumes) {
-      if (
-        prepared.volumes[volumeName] === null ||
-        prepared.volumes[volumeName] === undefined
-      ) {
-        prepared.volumes[volumeName] = {};
-      }
+    if (created.length + recreated.length + removed.length === 0) {
+      log.info("No containers are affected");
+    }
+    if (created.length > 0) {
+      log.info(`Containers to create: ${created.join(", ")}`);
+    }
+    if (recreated.length > 0) {
+      log.info(`Containers to recreate: ${recreated.join(", ")}`);
+    }
+    if (removed.length > 0) {
+      log.info(`Containers to remove: ${removed.join(", ")}`);
     }
   }
 
-  return prepared;
+  if (options.dryRun) {
+    log.info("Dry run, nothing was changed");
+    return false;
+  }
+  if (!options.yes && !confirm("Apply these changes?")) {
+    log.warn("Aborted, docker-compose.yml left unchanged");
+    process.exit(1);
+  }
+  return true;
 }
 
 /**
@@ -155,22 +350,23 @@ function prepareConfigForYaml(
  */
 async function initProject(
   projectName: string,
-  config: { vpsHost: string; vpsUser: string }
+  options: ChangeOptions,
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName) {
     log.error("Project name is required");
     usage();
   }
+  assertValidName(projectName, "project name");
 
   const composeHome = await getComposeHome(config);
   const projectDir = `${composeHome}/${projectName}`;
 
   // Check if directory exists on VPS
-  const dirExists = await sshExecQuiet(`[ -d "${projectDir}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const dirExists = await sshExecQuiet(
+    shellCommand(["test", "-d", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (dirExists.success) {
     log.warn(`Project directory already exists on VPS: ${projectDir}`);
@@ -179,118 +375,146 @@ async function initProject(
 
   log.info(`Initializing docker-compose project on VPS: ${projectName}`);
 
+  const composeDoc = createComposeDocument(projectName);
+  if (!(await planComposeChange(projectDir, composeDoc, options, config))) {
+    return;
+  }
+
   // Create directory
-  await sshExec(`mkdir -p "${projectDir}"`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  await sshExec(
+    shellCommand(["mkdir", "-p", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
-  // Build docker-compose object
-  const composeConfig: DockerComposeConfig = {
-    services: {},
-    networks: {
-      default: {
-        name: `${projectName}_network`,
-      },
-    },
-  };
+  // Write the initial docker-compose.yml
+  await writeComposeFile(projectDir, composeDoc, config);
 
-  const preparedConfig = prepareConfigForYaml(composeConfig);
+  log.ok(`Project initialized on VPS at: ${projectDir}`);
+  log.info(
+    `You can now add services using: bin/compose add ${projectName} <type> <alias>`
+  );
+}
 
-  // Convert to YAML - use custom formatting
-  let composeContent = yaml.stringify(preparedConfig, {
-    indent: 2,
-    lineWidth: 0,
-    minContentWidth: 0,
-    simpleKeys: false,
-    defaultStringType: "QUOTE_DOUBLE",
-    defaultKeyType: "PLAIN",
-  });
+/**
+ * List the projects on the VPS with their service and running counts
+ */
+async function listProjects(config: VPSConfig): Promise<void> {
+  const projects = await listComposeProjects(config);
 
-  // Post-process to make command and healthcheck.test arrays inline
-  // This is the ONLY string manipulation we need - just for formatting preference
-  composeContent = composeContent.replace(
-    /^(\s+command:\s*\n)((?:\s+- [^\n]+\n)+)/gm,
-    (match, before, items) => {
-      const itemLines = items
-        .split("\n")
-        .filter((l: string) => l.trim().startsWith("-"))
-        .map((l: string) => {
-          let item = l.trim().substring(1).trim();
-          if (item.startsWith('"') && item.endsWith('"')) return item;
-          if (item.includes(" ") || item.includes(":")) return `"${item}"`;
-          return item;
-        });
-      const indent = before.match(/(\s+)command:/)?.[1] || "      ";
-      return `${indent}command: [${itemLines.join(", ")}]\n`;
-    }
+  if (projects.length === 0) {
+    log.info(`No projects found in ${await getComposeHome(config)}`);
+    log.info("Create one with: bin/compose init <name>");
+    return;
+  }
+
+  log.table(
+    ["PROJECT", "SERVICES", "RUNNING", "DIRECTORY"],
+    projects.map((project) => {
+      const running =
+        project.running === 0
+          ? chalk.dim("0")
+          : project.services !== null && project.running < project.services
+          ? chalk.yellow(String(project.running))
+          : chalk.green(String(project.running));
+      return [
+        project.name,
+        project.services === null
+          ? chalk.red("invalid")
+          : String(project.services),
+        running,
+        project.directory,
+      ];
+    })
   );
+}
 
-  composeContent = composeContent.replace(
-    /^(\s+healthcheck:\s*\n(?:\s+[^\s:]+:[^\n]*\n)*)\s+test:\s*\n((?:\s+- [^\n]+\n)+)/gm,
-    (match, before, items) => {
-      const itemLines = items
-        .split("\n")
-        .filter((l: string) => l.trim().startsWith("-"))
-        .map((l: string) => {
-          let item = l.trim().substring(1).trim();
-          if (item.startsWith('"') && item.endsWith('"')) return item;
-          if (item.includes(" ") || item.includes(":")) return `"${item}"`;
-          return item;
-        });
-      return `${before}      test: [${itemLines.join(", ")}]\n`;
-    }
+/**
+ * Color a container state (running is fine, exited and dead are not)
+ */
+function formatState(state: string): string {
+  if (state === "running") {
+    return chalk.green(state);
+  }
+  if (state === "exited" || state === "dead") {
+    return chalk.red(state);
+  }
+  return chalk.yellow(state);
+}
+
+/**
+ * Color a container health status
+ */
+function formatHealth(health: string): string {
+  if (!health) {
+    return chalk.dim("-");
+  }
+  if (health === "healthy") {
+    return chalk.green(health);
+  }
+  return health === "unhealthy" ? chalk.red(health) : chalk.yellow(health);
+}
+
+/**
+ * Show the state of a project's containers
+ */
+async function psProject(
+  projectName: string,
+  json: boolean,
+  config: VPSConfig
+): Promise<void> {
+  if (!projectName) {
+    log.error("Project name is required");
+    usage();
+  }
+  assertValidName(projectName, "project name");
+
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
+  const composeConfig = getComposeConfig(
+    await readComposeFile(projectDir, config)
   );
 
-  // Ensure volumes are {} not null
-  composeContent = composeContent.replace(/^(\s+\w+):\s*null\s*$/gm, "$1:");
-
-  // Remove empty object syntax (: {}) and replace with just colon
-  composeContent = composeContent.replace(/^(\s+\w+):\s*\{\}\s*$/gm, "$1:");
-
-  // Add blank lines between services (only in services section, not volumes/networks)
-  const lines = composeContent.split("\n");
-  let inServicesSection = false;
-  let firstService = true;
-  const processedLines = lines.map((line, index) => {
-    if (line.trim() === "services:") {
-      inServicesSection = true;
-      firstService = true;
-      return line;
+  const statuses = await getComposeStatus(projectDir, config);
+
+  // Services without a container yet (e.g. added but never started)
+  for (const service of Object.keys(composeConfig.services ?? {})) {
+    if (!statuses.some((status) => status.service === service)) {
+      statuses.push({
+        service,
+        container: "",
+        image: composeConfig.services?.[service]?.image ?? "",
+        state: "not created",
+        health: "",
+        status: "",
+        uptime: "",
+        exitCode: 0,
+        ports: [],
+      } satisfies ComposeContainerStatus);
     }
-    if (line.trim() === "volumes:" || line.trim() === "networks:") {
-      inServicesSection = false;
-      return line;
-    }
-    if (inServicesSection && /^  \w+:\s*$/.test(line)) {
-      if (firstService) {
-        firstService = false;
-        return line;
-      }
-      return `\n${line}`;
-    }
-    return line;
-  });
-  composeContent = processedLines.join("\n");
+  }
 
-  // Add blank lines between major sections
-  composeContent = composeContent.replace(/^volumes:\s*$/gm, "\nvolumes:");
-  composeContent = composeContent.replace(/^networks:\s*$/gm, "\nnetworks:");
+  if (json) {
+    log.raw(JSON.stringify(statuses, null, 2));
+    return;
+  }
 
-  await sshExec(
-    `cat > "${projectDir}/docker-compose.yml"`,
-    {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    },
-    composeContent
-  );
+  if (statuses.length === 0) {
+    log.info(`Project '${projectName}' has no services`);
+    return;
+  }
 
-  log.ok(`Project initialized on VPS at: ${projectDir}`);
-  log.info(
-    `You can now add services using: bin/compose add ${projectName} <type> <alias>`
+  log.table(
+    ["SERVICE", "STATE", "HEALTH", "UPTIME", "IMAGE", "PORTS"],
+    statuses.map((status) => [
+      status.service,
+      status.state === "exited"
+        ? formatState(`exited (${status.exitCode})`)
+        : formatState(status.state),
+      formatHealth(status.health),
+      status.uptime || chalk.dim("-"),
+      status.image,
+      status.ports.join(", ") || chalk.dim("-"),
+    ])
   );
 }
 
@@ -301,23 +525,36 @@ async function addService(
   projectName: string,
   serviceType: string,
   alias: string,
-  config: { vpsHost: string; vpsUser: string }
+  paramArgs: string[],
+  options: ChangeOptions,
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName || !serviceType || !alias) {
     log.error("Project name, service type, and alias are required");
     usage();
   }
+  assertValidName(projectName, "project name");
+  assertValidName(alias, "service alias");
+
+  const template = await getTemplate(serviceType);
+  if (!template) {
+    log.error(`Unknown service type: ${serviceType}`);
+    log.info(
+      `Supported types: ${[...(await loadTemplates()).keys()].join(", ")}`
+    );
+    process.exit(1);
+  }
+  const params = resolveTemplateParams(template, paramArgs);
 
   const composeHome = await getComposeHome(config);
   const projectDir = `${composeHome}/${projectName}`;
-  const composeFile = `${projectDir}/docker-compose.yml`;
+  const composeFile = getComposeFilePath(projectDir);
 
   // Check if project exists
-  const dirExists = await sshExecQuiet(`[ -d "${projectDir}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const dirExists = await sshExecQuiet(
+    shellCommand(["test", "-d", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!dirExists.success) {
     log.error(`Project directory does not exist on VPS: ${projectDir}`);
@@ -325,245 +562,1394 @@ async function addService(
     process.exit(1);
   }
 
-  const fileExists = await sshExecQuiet(`[ -f "${composeFile}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const composeDoc = await readComposeFile(projectDir, config);
 
-  if (!fileExists.success) {
-    log.error(`docker-compose.yml not found on VPS: ${composeFile}`);
+  // Check if service already exists
+  if (hasComposeService(composeDoc, alias)) {
+    log.warn(`Service '${alias}' already exists in docker-compose.yml`);
     process.exit(1);
   }
 
-  // Download compose file
-  const composeContent = await sshExecStdout(`cat "${composeFile}"`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  log.info(
+    `Adding ${serviceType} service '${alias}' to project '${projectName}' on VPS`
+  );
 
-  // Parse YAML to object
-  let composeConfig: DockerComposeConfig;
-  try {
-    composeConfig = yaml.parse(composeContent) as DockerComposeConfig;
-    if (!composeConfig || typeof composeConfig !== "object") {
-      throw new Error("Invalid docker-compose.yml structure");
+  const context: TemplateContext = {
+    projectName,
+    alias,
+    composeHome,
+    projectDir,
+    params,
+    config,
+  };
+
+  const serviceConfig = await template.service(context);
+  const secretNames = (serviceConfig.secrets ?? []).map((secret) =>
+    typeof secret === "string" ? secret : secret.source
+  );
+  const secretsDir = getSecretsDir(projectDir);
+
+  // Add service and its named volumes, keeping the rest of the file as is
+  setComposeService(composeDoc, alias, serviceConfig);
+  for (const name of secretNames) {
+    addComposeSecret(composeDoc, name, `${secretsDir}/${name}`);
+  }
+  for (const volume of template.volumes?.(context) ?? []) {
+    addComposeVolume(composeDoc, volume);
+  }
+  ensureComposeNetwork(composeDoc, projectName);
+
+  if (!(await planComposeChange(projectDir, composeDoc, options, config))) {
+    return;
+  }
+
+  for (const dir of template.directories?.(context) ?? []) {
+    await sshExec(
+      shellCommand(["mkdir", "-p", dir]),
+      getSSHOptions(config, { agentForward: true })
+    );
+    log.info(`Created directory on VPS: ${dir}`);
+  }
+
+  for (const [path, content] of Object.entries(
+    template.files?.(context) ?? {}
+  )) {
+    const exists = await sshExecQuiet(
+      shellCommand(["test", "-e", path]),
+      getSSHOptions(config, { agentForward: true })
+    );
+    if (exists.success) {
+      log.info(`Keeping existing file on VPS: ${path}`);
+      continue;
     }
-  } catch (error) {
-    log.error(
-      `Failed to parse docker-compose.yml: ${
-        error instanceof Error ? error.message : String(error)
-      }`
+    const fileResult = await uploadContent(
+      content,
+      path,
+      getSSHOptions(config, { agentForward: true }),
+      { mode: "644" }
     );
-    process.exit(1);
+    if (!fileResult.success) {
+      log.error(`Failed to create ${path}: ${fileResult.stderr}`);
+      process.exit(1);
+    }
+    log.info(`Created file on VPS: ${path}`);
+  }
+
+  // Generate the secrets the service uses and write them to the VPS
+  if (secretNames.length > 0) {
+    const vault = openSecretsVault();
+    const generated = secretNames.filter(
+      (name) => getSecret(vault, name) === undefined
+    );
+    for (const name of generated) {
+      setSecret(vault, name, generatePassword());
+    }
+    if (generated.length > 0) {
+      await saveSecretsVault(vault);
+      log.info(`Generated secret(s) in the vault: ${generated.join(", ")}`);
+    }
+
+    await pushSecrets(
+      vault,
+      secretNames,
+      secretsDir,
+      getSecretOwners(composeDoc),
+      config
+    );
+    log.info(`Wrote secret(s) to VPS: ${secretsDir}`);
   }
 
-  // Ensure services object exists
-  if (!composeConfig.services) {
-    composeConfig.services = {};
+  const backupFile = await writeComposeFile(projectDir, composeDoc, config);
+  if (backupFile) {
+    log.info(`Backup created on VPS at: ${backupFile}`);
   }
 
-  // Check if service already exists
-  if (composeConfig.services[alias]) {
-    log.warn(`Service '${alias}' already exists in docker-compose.yml`);
+  log.ok(`Service '${alias}' added successfully on VPS`);
+  log.info(`Review and customize on VPS: ${composeFile}`);
+
+  const firewallPorts = template.firewall?.(context) ?? [];
+  if (firewallPorts.length > 0) {
+    if (await allowFirewallPorts(firewallPorts, config)) {
+      log.ok(`Allowed in firewall: ${firewallPorts.join(", ")}`);
+    } else {
+      log.warn(
+        `Could not allow ${firewallPorts.join(", ")} in the firewall, ` +
+          `run on the VPS: sudo ufw allow <port>`
+      );
+    }
+  }
+
+  for (const hint of template.hints?.(context) ?? []) {
+    log.info(hint);
+  }
+}
+
+/**
+ * Remove a service (and the named volumes only it used) from a project
+ */
+async function removeService(
+  projectName: string,
+  alias: string,
+  purge: boolean,
+  options: ChangeOptions,
+  config: VPSConfig
+): Promise<void> {
+  if (!projectName || !alias) {
+    log.error("Project name and service alias are required");
+    usage();
+  }
+  assertValidName(projectName, "project name");
+  assertValidName(alias, "service alias");
+
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
+  const composeDoc = await readComposeFile(projectDir, config);
+
+  if (!hasComposeService(composeDoc, alias)) {
+    log.error(`Service '${alias}' not found in project '${projectName}'`);
     process.exit(1);
   }
 
-  log.info(
-    `Adding ${serviceType} service '${alias}' to project '${projectName}' on VPS`
-  );
+  const orphanedVolumes = findOrphanedVolumes(composeDoc, alias);
+  removeComposeService(composeDoc, alias);
+  for (const volume of orphanedVolumes) {
+    removeComposeVolume(composeDoc, volume);
+  }
+
+  if (!(await planComposeChange(projectDir, composeDoc, options, config))) {
+    return;
+  }
 
-  const serviceTypeLower = serviceType.toLowerCase();
-  let serviceConfig: DockerComposeService;
+  log.info(`Removing service '${alias}' from project '${projectName}' on VPS`);
 
-  if (serviceTypeLower === "bun") {
-    const appDir = `${composeHome}/${projectName}/apps/${alias}`;
-    await sshExec(`mkdir -p "${appDir}"`, {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    });
-    log.info(`Created app directory on VPS: ${appDir}`);
-    serviceConfig = await getBunService(
-      projectName,
+  // Stop and remove the container before it disappears from the file
+  const rmResult = await sshExecStream(
+    shellCommandIn(projectDir, [
+      "docker",
+      "compose",
+      "rm",
+      "--stop",
+      "--force",
       alias,
-      composeHome,
-      config
-    );
-  } else if (serviceTypeLower === "mysql") {
-    serviceConfig = getMysqlService(alias);
-  } else {
-    log.error(`Unknown service type: ${serviceType}`);
-    log.info("Supported types: bun, mysql");
+    ]),
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  if (!rmResult.success) {
+    log.error(`Failed to remove the container of service '${alias}'`);
     process.exit(1);
   }
 
-  // Add service to config
-  composeConfig.services[alias] = serviceConfig;
+  const backupFile = await writeComposeFile(projectDir, composeDoc, config);
+  if (backupFile) {
+    log.info(`Backup created on VPS at: ${backupFile}`);
+  }
 
-  // Ensure volumes section exists
-  if (!composeConfig.volumes) {
-    composeConfig.volumes = {};
+  if (purge) {
+    const appDir = `${projectDir}/apps/${alias}`;
+    const purgeResult = await sshExec(
+      shellCommand(["rm", "-rf", appDir]),
+      getSSHOptions(config, { agentForward: true })
+    );
+    if (!purgeResult.success) {
+      log.error(`Failed to delete ${appDir}: ${purgeResult.stderr}`);
+      process.exit(1);
+    }
+    log.info(`Deleted directory on VPS: ${appDir}`);
   }
 
-  // Ensure all existing volumes are empty objects, not null
-  for (const volumeName in composeConfig.volumes) {
-    if (
-      composeConfig.volumes[volumeName] === null ||
-      composeConfig.volumes[volumeName] === undefined
-    ) {
-      composeConfig.volumes[volumeName] = {};
+  log.ok(`Service '${alias}' removed successfully on VPS`);
+
+  // The data of removed volumes is kept until the volume itself is deleted
+  if (orphanedVolumes.length > 0) {
+    log.info(
+      `Removed volume(s) from docker-compose.yml: ${orphanedVolumes.join(", ")}`
+    );
+
+    // Docker volume names follow the compose project name, which docker
+    // compose normalizes (or takes from the file's name key)
+    const dockerVolumes: string[] = [];
+    for (const volume of orphanedVolumes) {
+      const dockerVolume = await findDockerVolume(
+        composeDoc,
+        projectName,
+        volume,
+        config
+      );
+      if (dockerVolume) {
+        dockerVolumes.push(dockerVolume);
+      }
+    }
+    if (dockerVolumes.length > 0) {
+      log.info(
+        `Their data is kept, delete it on the VPS with: docker volume rm ` +
+          dockerVolumes.map(shellQuote).join(" ")
+      );
     }
   }
+}
 
-  // Add volumes for MySQL if needed
-  if (serviceTypeLower === "mysql") {
-    composeConfig.volumes[`${alias}_data`] = {};
+/**
+ * List the available service types with their parameters
+ */
+async function listTemplates(): Promise<void> {
+  const templates = [...(await loadTemplates()).values()];
+  const width = Math.max(...templates.map((t) => t.name.length)) + 2;
+
+  log.info("Available service types:");
+  for (const template of templates) {
+    const source = isCustomTemplate(template.name) ? " (custom)" : "";
+    log.raw(`  ${template.name.padEnd(width)}${template.description}${source}`);
+    for (const param of template.params ?? []) {
+      const value =
+        param.default === undefined
+          ? "required"
+          : `default: ${param.default || '""'}`;
+      log.raw(
+        `  ${"".padEnd(width)}  ${param.name}=<value>  ${
+          param.description
+        } (${value})`
+      );
+    }
   }
+  log.blank();
+  log.info(`Custom templates are loaded from: ${getTemplatesDir()}`);
+}
 
-  // Ensure networks section exists
-  if (!composeConfig.networks) {
-    composeConfig.networks = {
-      default: {
-        name: `${projectName}_network`,
-      },
-    };
+/**
+ * Route a domain to a service port through the project's reverse proxy
+ */
+async function routeService(
+  projectName: string,
+  alias: string,
+  domain: string,
+  port: string,
+  config: VPSConfig
+): Promise<void> {
+  if (!projectName || !alias || !domain || !port) {
+    log.error("Project name, service alias, domain, and port are required");
+    usage();
+  }
+  assertValidName(projectName, "project name");
+  assertValidName(alias, "service alias");
+  assertValidDomain(domain);
+  if (!/^\d{1,5}$/.test(port)) {
+    log.error(`Invalid port: ${port}`);
+    process.exit(1);
   }
 
-  // Create backup
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
-  const backupFile = `/tmp/docker-compose.backup.${timestamp}.yml`;
-  await sshExec(`cp "${composeFile}" "${backupFile}"`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
-  log.info(`Backup created on VPS at: ${backupFile}`);
-
-  // Convert object back to YAML
-  const preparedConfig = prepareConfigForYaml(composeConfig);
-
-  let newContent = yaml.stringify(preparedConfig, {
-    indent: 2,
-    lineWidth: 0,
-    minContentWidth: 0,
-    simpleKeys: false,
-    defaultStringType: "QUOTE_DOUBLE",
-    defaultKeyType: "PLAIN",
-  });
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
 
-  // Same post-processing as initProject
-  newContent = newContent.replace(
-    /^(\s+command:\s*\n)((?:\s+- [^\n]+\n)+)/gm,
-    (match, before, items) => {
-      const itemLines = items
-        .split("\n")
-        .filter((l: string) => l.trim().startsWith("-"))
-        .map((l: string) => {
-          let item = l.trim().substring(1).trim();
-          if (item.startsWith('"') && item.endsWith('"')) return item;
-          if (item.includes(" ") || item.includes(":")) return `"${item}"`;
-          return item;
-        });
-      const indent = before.match(/(\s+)command:/)?.[1] || "      ";
-      return `${indent}command: [${itemLines.join(", ")}]\n`;
-    }
+  const composeConfig = getComposeConfig(
+    await readComposeFile(projectDir, config)
   );
 
-  newContent = newContent.replace(
-    /^(\s+healthcheck:\s*\n(?:\s+[^\s:]+:[^\n]*\n)*)\s+test:\s*\n((?:\s+- [^\n]+\n)+)/gm,
-    (match, before, items) => {
-      const itemLines = items
-        .split("\n")
-        .filter((l: string) => l.trim().startsWith("-"))
-        .map((l: string) => {
-          let item = l.trim().substring(1).trim();
-          if (item.startsWith('"') && item.endsWith('"')) return item;
-          if (item.includes(" ") || item.includes(":")) return `"${item}"`;
-          return item;
-        });
-      return `${before}      test: [${itemLines.join(", ")}]\n`;
+  if (!composeConfig.services?.[alias]) {
+    log.error(`Service '${alias}' not found in project '${projectName}'`);
+    process.exit(1);
+  }
+
+  const proxy = findProxyService(composeConfig);
+  if (!proxy) {
+    log.error(`Project '${projectName}' has no reverse proxy`);
+    log.info(`Add one first with: bin/compose add ${projectName} proxy proxy`);
+    process.exit(1);
+  }
+
+  // Update the routes and render the Caddyfile from them
+  const proxyDir = getProxyDir(projectDir, proxy);
+  const settings = parseProxySettings(
+    await downloadContent(
+      `${proxyDir}/proxy.yml`,
+      getSSHOptions(config, { agentForward: true })
+    )
+  );
+  settings.routes[domain] = { service: alias, port: parseInt(port, 10) };
+
+  for (const [file, content] of [
+    ["proxy.yml", serializeProxySettings(settings)],
+    ["Caddyfile", renderCaddyfile(settings)],
+  ]) {
+    const uploadResult = await uploadContent(
+      content ?? "",
+      `${proxyDir}/${file}`,
+      getSSHOptions(config, { agentForward: true }),
+      { mode: "644" }
+    );
+    if (!uploadResult.success) {
+      log.error(`Failed to upload ${file}: ${uploadResult.stderr}`);
+      process.exit(1);
     }
+  }
+
+  if (!(await allowFirewallPorts(PROXY_PORTS, config))) {
+    log.warn(
+      `Could not allow ${PROXY_PORTS.join(", ")} in the firewall, ` +
+        `run on the VPS: sudo ufw allow <port>`
+    );
+  }
+
+  // Apply the new Caddyfile without restarting the proxy
+  const reloadResult = await sshExec(
+    shellCommandIn(projectDir, [
+      "docker",
+      "compose",
+      "exec",
+      "-T",
+      proxy,
+      "caddy",
+      "reload",
+      "--config",
+      "/etc/caddy/Caddyfile",
+      "--adapter",
+      "caddyfile",
+    ]),
+    getSSHOptions(config, { agentForward: true })
   );
 
-  newContent = newContent.replace(/^(\s+\w+):\s*null\s*$/gm, "$1: {}");
+  if (!reloadResult.success) {
+    log.warn(
+      `Proxy '${proxy}' was not reloaded (is it running?), the route ` +
+        `applies on the next: bin/compose up ${projectName}`
+    );
+  }
+
+  log.ok(`Routing https://${domain} to ${alias}:${port}`);
+}
 
-  // Remove empty object syntax (: {}) and replace with just colon
-  newContent = newContent.replace(/^(\s+\w+):\s*\{\}\s*$/gm, "$1:");
+/**
+ * Options of compose logs
+ */
+interface LogsOptions {
+  follow: boolean;
+  since?: string;
+  tail?: string;
+  grep?: RegExp;
+}
 
-  // Add blank lines between services (only in services section, not volumes/networks)
-  const lines = newContent.split("\n");
-  let inServicesSection = false;
-  let firstService = true;
-  const processedLines = lines.map((line, index) => {
-    if (line.trim() === "services:") {
-      inServicesSection = true;
-      firstService = true;
-      return line;
-    }
-    if (line.trim() === "volumes:" || line.trim() === "networks:") {
-      inServicesSection = false;
-      return line;
-    }
-    if (inServicesSection && /^  \w+:\s*$/.test(line)) {
-      if (firstService) {
-        firstService = false;
-        return line;
+/**
+ * Split command arguments into positional arguments and options
+ * Flags don't take a value; value options take the next argument (or
+ * --name=value). Unknown options print the usage
+ */
+function parseOptions(
+  args: string[],
+  flagNames: string[],
+  valueNames: string[] = []
+): {
+  positional: string[];
+  flags: Set<string>;
+  values: Map<string, string>;
+} {
+  const positional: string[] = [];
+  const flags = new Set<string>();
+  const values = new Map<string, string>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? "";
+    const [name = "", inlineValue] = arg.startsWith("--")
+      ? (arg.split(/=(.*)/s) as [string, string | undefined])
+      : [arg, undefined];
+
+    if (flagNames.includes(name) && inlineValue === undefined) {
+      flags.add(name);
+    } else if (valueNames.includes(name)) {
+      const value = inlineValue ?? args[++i];
+      if (value === undefined || value === "") {
+        log.error(`Missing value for ${name}`);
+        usage();
       }
-      return `\n${line}`;
+      values.set(name, value ?? "");
+    } else if (arg.startsWith("-") && arg !== "-") {
+      log.error(`Unknown option: ${arg}`);
+      usage();
+    } else {
+      positional.push(arg);
     }
-    return line;
-  });
-  newContent = processedLines.join("\n");
+  }
 
-  // Add blank lines between major sections
-  newContent = newContent.replace(/^volumes:\s*$/gm, "\nvolumes:");
-  newContent = newContent.replace(/^networks:\s*$/gm, "\nnetworks:");
+  return { positional, flags, values };
+}
 
-  // Upload modified file
-  await sshExec(
-    `cat > "${composeFile}"`,
-    {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    },
-    newContent
+/**
+ * Parse the arguments of compose logs into aliases and options
+ */
+function parseLogsArgs(args: string[]): {
+  positional: string[];
+  options: LogsOptions;
+} {
+  const { positional, flags, values } = parseOptions(
+    args,
+    ["--follow", "-f"],
+    ["--since", "--tail", "--grep"]
   );
 
-  log.ok(`Service '${alias}' added successfully on VPS`);
-  log.info(`Review and customize on VPS: ${composeFile}`);
+  const options: LogsOptions = {
+    follow: flags.has("--follow") || flags.has("-f"),
+    since: values.get("--since"),
+    tail: values.get("--tail"),
+  };
+
+  if (options.tail && !/^(\d+|all)$/.test(options.tail)) {
+    log.error(`Invalid --tail value: ${options.tail}`);
+    process.exit(1);
+  }
+
+  const pattern = values.get("--grep");
+  if (pattern !== undefined) {
+    try {
+      options.grep = new RegExp(pattern);
+    } catch {
+      log.error(`Invalid --grep pattern: ${pattern}`);
+      process.exit(1);
+    }
+  }
+
+  return { positional, options };
+}
+
+/**
+ * Show (or follow) the logs of a project's services
+ * Lines are prefixed with the service name, colored per service
+ */
+async function logsProject(
+  projectName: string,
+  aliases: string[],
+  options: LogsOptions,
+  config: VPSConfig
+): Promise<void> {
+  if (!projectName) {
+    log.error("Project name is required");
+    usage();
+  }
+  assertValidName(projectName, "project name");
+  for (const alias of aliases) {
+    assertValidName(alias, "service alias");
+  }
+
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
+  const composeConfig = getComposeConfig(
+    await readComposeFile(projectDir, config)
+  );
+
+  const services = Object.keys(composeConfig.services ?? {});
+  for (const alias of aliases) {
+    if (!services.includes(alias)) {
+      log.error(`Service '${alias}' not found in project '${projectName}'`);
+      process.exit(1);
+    }
+  }
+
+  const argv = ["docker", "compose", "logs", "--no-color"];
+  if (options.follow) {
+    argv.push("--follow");
+  }
+  if (options.since) {
+    argv.push("--since", options.since);
+  }
+  if (options.tail) {
+    argv.push("--tail", options.tail);
+  }
+  argv.push(...aliases);
+
+  // Ctrl-C ends the remote command too, that's how following logs ends
+  let interrupted = false;
+  const restoreInterrupt = handleInterrupt(() => {
+    interrupted = true;
+  });
+
+  const result = await sshExec(
+    shellCommandIn(projectDir, argv),
+    getSSHOptions(config, {
+      agentForward: true,
+      onStdoutLine: (line) => {
+        // Prefixes are container names, padded by docker compose
+        const match = line.match(/^(\S+)(\s*)\| ?(.*)$/);
+        if (!match) {
+          if (line.trim() && !options.grep) {
+            log.raw(line);
+          }
+          return;
+        }
+
+        const [, name = "", padding = "", message = ""] = match;
+        if (options.grep && !options.grep.test(message)) {
+          return;
+        }
+        log.service(name, message, name.length + padding.length - 1);
+      },
+      onStderrLine: (line) => {
+        if (line.trim()) {
+          log.warn(line);
+        }
+      },
+    })
+  );
+  restoreInterrupt();
+
+  if (!result.success && !interrupted) {
+    log.error(`Failed to read the logs of project '${projectName}'`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Execute a command in a container
+ * With tty, the command gets a terminal end to end (VPS and container), for
+ * interactive programs such as shells and REPLs
+ */
+async function execProject(
+  projectName: string,
+  alias: string,
+  command: string[],
+  tty: boolean,
+  config: VPSConfig
+): Promise<void> {
+  if (!projectName || !alias || command.length === 0) {
+    log.error("Project name, container alias, and command are required");
+    usage();
+  }
+  assertValidName(projectName, "project name");
+  assertValidName(alias, "container alias");
+
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
+  const composeFile = getComposeFilePath(projectDir);
+
+  // Check if project exists
+  const dirExists = await sshExecQuiet(
+    shellCommand(["test", "-d", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  if (!dirExists.success) {
+    log.error(`Project directory does not exist on VPS: ${projectDir}`);
+    log.info(`Initialize it first with: bin/compose init ${projectName}`);
+    process.exit(1);
+  }
+
+  const fileExists = await sshExecQuiet(
+    shellCommand(["test", "-f", composeFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  if (!fileExists.success) {
+    log.error(`docker-compose.yml not found on VPS: ${composeFile}`);
+    process.exit(1);
+  }
+
+  // Check if container is running
+  const containerRunning = await sshExecQuiet(
+    `${shellCommandIn(projectDir, [
+      "docker",
+      "compose",
+      "ps",
+      "-q",
+      alias,
+    ])} | grep -q .`,
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  if (!containerRunning.success) {
+    log.error(`Container '${alias}' is not running`);
+    log.info(`Start it first with: bin/compose up ${projectName}`);
+    process.exit(1);
+  }
+
+  // Try to fix permissions for Bun services before executing
+  const isBunService = await sshExec(
+    `${shellCommand([
+      "grep",
+      "-A",
+      "5",
+      `^  ${alias}:`,
+      composeFile,
+    ])} | grep -q oven/bun`,
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  log.info(
+    `Executing command in container '${alias}' of project '${projectName}'`
+  );
+
+  // Execute command (docker compose exec allocates a TTY unless -T is given)
+  const result = tty
+    ? await sshExec(
+        shellCommandIn(projectDir, [
+          "docker",
+          "compose",
+          "exec",
+          alias,
+          ...command,
+        ]),
+        getSSHOptions(config, { agentForward: true, tty: true })
+      )
+    : await sshExecStream(
+        shellCommandIn(projectDir, [
+          "docker",
+          "compose",
+          "exec",
+          "-T",
+          alias,
+          ...command,
+        ]),
+        getSSHOptions(config, { agentForward: true })
+      );
+
+  // Exit with the same code as the command
+  if (!result.success) {
+    process.exit(result.exitCode ?? 1);
+  }
+}
+
+/**
+ * Open an interactive shell in a container
+ * Without a shell given, bash is used when the image has it, sh otherwise
+ */
+async function shellProject(
+  projectName: string,
+  alias: string,
+  shell: string | undefined,
+  config: VPSConfig
+): Promise<void> {
+  const command = shell
+    ? [shell]
+    : [
+        "sh",
+        "-c",
+        "if command -v bash >/dev/null 2>&1; then exec bash; fi; exec sh",
+      ];
+  await execProject(projectName, alias, command, true, config);
+}
+
+/**
+ * Options of compose backup
+ */
+interface BackupOptions {
+  keep: number;
+  download: boolean;
+  list: boolean;
+  schedule?: string;
+  unschedule: boolean;
+}
+
+/**
+ * Get a mysql service of a project (exits when it isn't one)
+ */
+async function getMysqlService(
+  projectName: string,
+  projectDir: string,
+  alias: string,
+  config: VPSConfig
+): Promise<DockerComposeService> {
+  const service = getComposeConfig(await readComposeFile(projectDir, config))
+    .services?.[alias];
+
+  if (!service) {
+    log.error(`Service '${alias}' not found in project '${projectName}'`);
+    process.exit(1);
+  }
+  if (!isMysqlService(service)) {
+    log.error(
+      `Service '${alias}' is not a mysql service (image: ${
+        service.image ?? "none"
+      })`
+    );
+    process.exit(1);
+  }
+  return service;
+}
+
+/**
+ * Back up the databases of a mysql service (or schedule its backups)
+ * Backups are compressed dumps in backups/<alias>; only the newest
+ * options.keep backups are kept
+ */
+async function backupService(
+  projectName: string,
+  alias: string,
+  options: BackupOptions,
+  config: VPSConfig
+): Promise<void> {
+  if (!projectName || !alias) {
+    log.error("Project name and service alias are required");
+    usage();
+  }
+  assertValidName(projectName, "project name");
+  assertValidName(alias, "service alias");
+
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
+  const backupDir = getBackupDir(projectDir, alias);
+  const scriptPath = getBackupScriptPath(projectDir, alias);
+
+  const schedule = options.schedule
+    ? resolveSchedule(options.schedule)
+    : undefined;
+
+  await getMysqlService(projectName, projectDir, alias, config);
+
+  if (options.list) {
+    const listResult = await sshExec(
+      `ls -1 ${shellCommand([backupDir])}/*.sql.gz 2>/dev/null | sort -r`,
+      getSSHOptions(config, { agentForward: true })
+    );
+    const files = listResult.stdout.split("\n").filter((line) => line.trim());
+    if (files.length === 0) {
+      log.info(`No backups of '${alias}' found in ${backupDir}`);
+      return;
+    }
+    log.info(`Backups of '${alias}' (newest first):`);
+    for (const file of files) {
+      log.raw(`  ${basename(file)}`);
+    }
+    return;
+  }
+
+  if (options.unschedule) {
+    if (
+      !(await setBackupSchedule(projectName, projectDir, alias, null, config))
+    ) {
+      log.error("Failed to update the crontab on the VPS");
+      process.exit(1);
+    }
+    log.ok(`Scheduled backups of '${alias}' removed`);
+    return;
+  }
+
+  // The script is run by this command and by scheduled backups alike
+  await sshExec(
+    shellCommand(["mkdir", "-p", backupDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
+  const scriptResult = await uploadContent(
+    renderMysqlBackupScript(projectName, projectDir, alias, options.keep),
+    scriptPath,
+    getSSHOptions(config, { agentForward: true }),
+    { mode: "700" }
+  );
+  if (!scriptResult.success) {
+    log.error(`Failed to upload the backup script: ${scriptResult.stderr}`);
+    process.exit(1);
+  }
+
+  if (schedule) {
+    if (
+      !(await setBackupSchedule(
+        projectName,
+        projectDir,
+        alias,
+        schedule,
+        config
+      ))
+    ) {
+      log.error("Failed to update the crontab on the VPS");
+      process.exit(1);
+    }
+    log.ok(`Scheduled backups of '${alias}' (cron: ${schedule})`);
+    log.info(
+      `Backups are stored in ${backupDir} (newest ${options.keep} kept), ` +
+        `output goes to ${backupDir}/backup.log`
+    );
+    return;
+  }
+
+  log.info(`Backing up mysql service '${alias}' of project '${projectName}'`);
+
+  const result = await sshExec(
+    shellCommand([scriptPath]),
+    getSSHOptions(config, { agentForward: true })
+  );
+  const backupFile = result.stdout.match(/^BACKUP=(.+)$/m)?.[1];
+
+  if (!result.success || !backupFile) {
+    log.error(`Backup of '${alias}' failed: ${result.stderr}`);
+    process.exit(1);
+  }
+
+  log.ok(`Backup created on VPS: ${backupFile}`);
+  log.info(`Keeping the newest ${options.keep} backups in ${backupDir}`);
+
+  if (options.download) {
+    const localPath = resolve(basename(backupFile));
+    const downloadResult = await downloadFile(
+      backupFile,
+      localPath,
+      getSSHOptions(config, { agentForward: true }),
+      { mode: "600" }
+    );
+    if (!downloadResult.success) {
+      log.error(`Failed to download the backup: ${downloadResult.stderr}`);
+      process.exit(1);
+    }
+    log.ok(`Backup downloaded to: ${localPath}`);
+  }
+}
+
+/**
+ * Restore a backup (.sql or .sql.gz) into a mysql service
+ * The file is a local file, a path on the VPS or the name of a backup in
+ * backups/<alias>
+ */
+async function restoreService(
+  projectName: string,
+  alias: string,
+  file: string,
+  yes: boolean,
+  config: VPSConfig
+): Promise<void> {
+  if (!projectName || !alias || !file) {
+    log.error("Project name, service alias, and backup file are required");
+    usage();
+  }
+  assertValidName(projectName, "project name");
+  assertValidName(alias, "service alias");
+
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
+
+  await getMysqlService(projectName, projectDir, alias, config);
+
+  // Local backups are uploaded to a temporary file first
+  const isLocal = existsSync(file);
+  let remoteFile: string;
+  if (isLocal) {
+    remoteFile = `/tmp/vps-restore-${randomBytes(6).toString("hex")}-${basename(
+      file
+    )}`;
+  } else {
+    remoteFile = file.includes("/")
+      ? file
+      : `${getBackupDir(projectDir, alias)}/${file}`;
+    const exists = await sshExecQuiet(
+      shellCommand(["test", "-f", remoteFile]),
+      getSSHOptions(config, { agentForward: true })
+    );
+    if (!exists.success) {
+      log.error(`Backup not found locally or on VPS: ${file}`);
+      log.info(
+        `List the backups with: bin/compose backup ${projectName} ${alias} --list`
+      );
+      process.exit(1);
+    }
+  }
+
+  log.alert(
+    `Restoring ${basename(file)} overwrites the databases of '${alias}' ` +
+      `in project '${projectName}'`
+  );
+  if (!yes && !confirm("Restore the backup?")) {
+    log.warn("Aborted, databases left unchanged");
+    process.exit(1);
+  }
+
+  if (isLocal) {
+    const uploadResult = await uploadFile(
+      file,
+      remoteFile,
+      getSSHOptions(config, { agentForward: true }),
+      { mode: "600" }
+    );
+    if (!uploadResult.success) {
+      log.error(`Failed to upload ${file}: ${uploadResult.stderr}`);
+      process.exit(1);
+    }
+  }
+
+  log.info(`Restoring ${basename(file)} into '${alias}'`);
+  const result = await sshExecStream(
+    mysqlRestoreCommand(projectDir, alias, remoteFile),
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  if (isLocal) {
+    await sshExecQuiet(
+      shellCommand(["rm", "-f", remoteFile]),
+      getSSHOptions(config, { agentForward: true })
+    );
+  }
+
+  if (!result.success) {
+    log.error(`Restore into '${alias}' failed`);
+    process.exit(1);
+  }
+
+  log.ok(`Backup restored into '${alias}'`);
+}
+
+/**
+ * Stop services of a project (or start them again)
+ */
+async function setServicesRunning(
+  projectDir: string,
+  services: string[],
+  running: boolean,
+  config: VPSConfig
+): Promise<boolean> {
+  if (services.length === 0) {
+    return true;
+  }
+  const result = await sshExecStream(
+    shellCommandIn(projectDir, [
+      "docker",
+      "compose",
+      running ? "start" : "stop",
+      ...services,
+    ]),
+    getSSHOptions(config, { agentForward: true })
+  );
+  return result.success;
+}
+
+/**
+ * Get the running services of a project among the given ones
+ */
+async function getRunningServices(
+  projectDir: string,
+  services: string[],
+  config: VPSConfig
+): Promise<string[]> {
+  const statuses = await getComposeStatus(projectDir, config);
+  return services.filter((service) =>
+    statuses.some(
+      (status) => status.service === service && status.state === "running"
+    )
+  );
+}
+
+/**
+ * Archive named volumes of a project to local tar.gz files
+ * The archive is streamed from a throwaway container on the VPS; with stop,
+ * the services using a volume are stopped while it's archived
+ */
+async function backupVolumes(
+  projectName: string,
+  volume: string | undefined,
+  outputDir: string,
+  stop: boolean,
+  config: VPSConfig
+): Promise<void> {
+  if (!projectName) {
+    log.error("Project name is required");
+    usage();
+  }
+  assertValidName(projectName, "project name");
+
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
+  const composeDoc = await readComposeFile(projectDir, config);
+  const declared = Object.keys(getComposeConfig(composeDoc).volumes ?? {});
+
+  if (volume && !declared.includes(volume)) {
+    log.error(`Volume '${volume}' not found in project '${projectName}'`);
+    process.exit(1);
+  }
+  const volumes = volume ? [volume] : declared;
+  if (volumes.length === 0) {
+    log.info(`Project '${projectName}' has no named volumes`);
+    return;
+  }
+
+  for (const name of volumes) {
+    const dockerVolume = await findDockerVolume(
+      composeDoc,
+      projectName,
+      name,
+      config
+    );
+    if (!dockerVolume) {
+      log.warn(`Volume '${name}' wasn't created yet, skipping it`);
+      continue;
+    }
+
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d+/, "");
+    const localPath = resolve(
+      join(outputDir, `${projectName}_${name}-${timestamp}.tar.gz`)
+    );
+
+    const stopped = stop
+      ? await getRunningServices(
+          projectDir,
+          getVolumeServices(composeDoc, name),
+          config
+        )
+      : [];
+    if (!(await setServicesRunning(projectDir, stopped, false, config))) {
+      log.error(`Failed to stop ${stopped.join(", ")}`);
+      process.exit(1);
+    }
+
+    log.info(`Archiving volume '${name}' (${dockerVolume})`);
+    const result = await sshExec(
+      volumeBackupCommand(dockerVolume),
+      getSSHOptions(config, { agentForward: true, stdoutFile: localPath })
+    );
+
+    if (!(await setServicesRunning(projectDir, stopped, true, config))) {
+      log.warn(`Failed to start ${stopped.join(", ")} again`);
+    }
+
+    if (!result.success || !existsSync(localPath)) {
+      rmSync(localPath, { force: true });
+      log.error(
+        `Failed to archive volume '${name}': ${
+          result.stderr || `${localPath} was not written`
+        }`
+      );
+      process.exit(1);
+    }
+
+    const size = (statSync(localPath).size / 1024 / 1024).toFixed(1);
+    log.ok(`Volume '${name}' saved to: ${localPath} (${size} MB)`);
+  }
+}
+
+/**
+ * Replace the contents of a named volume with a local tar.gz archive
+ * Running services using the volume are stopped and started again
+ */
+async function restoreVolume(
+  projectName: string,
+  volume: string,
+  file: string,
+  yes: boolean,
+  config: VPSConfig
+): Promise<void> {
+  if (!projectName || !volume || !file) {
+    log.error("Project name, volume, and archive file are required");
+    usage();
+  }
+  assertValidName(projectName, "project name");
+
+  if (!existsSync(file)) {
+    log.error(`Archive not found: ${file}`);
+    process.exit(1);
+  }
+
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
+  const composeDoc = await readComposeFile(projectDir, config);
+
+  if (!(volume in (getComposeConfig(composeDoc).volumes ?? {}))) {
+    log.error(`Volume '${volume}' not found in project '${projectName}'`);
+    process.exit(1);
+  }
+
+  const dockerVolume = await findDockerVolume(
+    composeDoc,
+    projectName,
+    volume,
+    config
+  );
+  if (!dockerVolume) {
+    log.error(`Volume '${volume}' wasn't created yet`);
+    log.info(`Create it first with: bin/compose up ${projectName}`);
+    process.exit(1);
+  }
+
+  const running = await getRunningServices(
+    projectDir,
+    getVolumeServices(composeDoc, volume),
+    config
+  );
+
+  log.alert(
+    `Restoring ${basename(file)} replaces all data in volume '${volume}'` +
+      (running.length > 0 ? ` (stops ${running.join(", ")} meanwhile)` : "")
+  );
+  if (!yes && !confirm("Restore the volume?")) {
+    log.warn("Aborted, volume left unchanged");
+    process.exit(1);
+  }
+
+  if (!(await setServicesRunning(projectDir, running, false, config))) {
+    log.error(`Failed to stop ${running.join(", ")}`);
+    process.exit(1);
+  }
+
+  log.info(`Restoring volume '${volume}' (${dockerVolume})`);
+  const result = await sshExec(
+    volumeRestoreCommand(dockerVolume),
+    getSSHOptions(config, { agentForward: true, stdinFile: resolve(file) })
+  );
+
+  if (!(await setServicesRunning(projectDir, running, true, config))) {
+    log.warn(`Failed to start ${running.join(", ")} again`);
+  }
+
+  if (!result.success) {
+    log.error(`Failed to restore volume '${volume}': ${result.stderr}`);
+    process.exit(1);
+  }
+
+  log.ok(`Volume '${volume}' restored from ${basename(file)}`);
+}
+
+/**
+ * Environment of a service: its env file and the compose file around it
+ */
+interface ServiceEnv {
+  projectDir: string;
+  composeDoc: Document;
+  service: DockerComposeService;
+  envFile: string;
+  content: string;
+}
+
+/**
+ * Load the environment of a service (exits when the service doesn't exist)
+ */
+async function loadServiceEnv(
+  projectName: string,
+  alias: string,
+  config: VPSConfig
+): Promise<ServiceEnv> {
+  if (!projectName || !alias) {
+    log.error("Project name and service alias are required");
+    usage();
+  }
+  assertValidName(projectName, "project name");
+  assertValidName(alias, "service alias");
+
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
+  const composeDoc = await readComposeFile(projectDir, config);
+  const service = getComposeConfig(composeDoc).services?.[alias];
+
+  if (!service) {
+    log.error(`Service '${alias}' not found in project '${projectName}'`);
+    process.exit(1);
+  }
+
+  const envFile = getServiceEnvFilePath(projectDir, alias);
+  const exists = await sshExecQuiet(
+    shellCommand(["test", "-f", envFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
+  const content = exists.success
+    ? await downloadContent(
+        envFile,
+        getSSHOptions(config, { agentForward: true })
+      )
+    : "";
+
+  return { projectDir, composeDoc, service, envFile, content };
+}
+
+/**
+ * List the variables of a service (secret values are masked unless show)
+ * Variables of the compose file's environment section take precedence
+ */
+async function listServiceEnv(
+  projectName: string,
+  alias: string,
+  show: boolean,
+  config: VPSConfig
+): Promise<void> {
+  const { service, content } = await loadServiceEnv(projectName, alias, config);
+
+  const variables = new Map<string, { value: string; source: string }>();
+  for (const [key, value] of Object.entries(parseEnvContent(content))) {
+    variables.set(key, { value, source: "env file" });
+  }
+  for (const [key, value] of Object.entries(getServiceEnvironment(service))) {
+    variables.set(key, { value, source: "docker-compose.yml" });
+  }
+
+  if (variables.size === 0) {
+    log.info(`No variables set for service '${alias}'`);
+    return;
+  }
+
+  log.table(
+    ["KEY", "VALUE", "SOURCE"],
+    [...variables.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, { value, source }]) => [
+        key,
+        !show && isSecretEnvKey(key) ? chalk.gray(maskEnvValue(value)) : value,
+        chalk.gray(source),
+      ])
+  );
+}
+
+/**
+ * Print the value of a variable of a service
+ */
+async function getServiceEnv(
+  projectName: string,
+  alias: string,
+  key: string,
+  config: VPSConfig
+): Promise<void> {
+  const { service, content } = await loadServiceEnv(projectName, alias, config);
+  const value =
+    getServiceEnvironment(service)[key] ?? parseEnvContent(content)[key];
+
+  if (value === undefined) {
+    log.error(`Variable '${key}' is not set for service '${alias}'`);
+    process.exit(1);
+  }
+  log.raw(value);
+}
+
+/**
+ * Set and remove variables of a service
+ * Values are stored in the service's env file (env/<alias>.env, mode 600),
+ * which the compose file references; variables are moved out of the
+ * environment section, which would take precedence. With restart the
+ * service is recreated, as a plain restart doesn't reload env files
+ */
+async function updateServiceEnv(
+  projectName: string,
+  alias: string,
+  values: Record<string, string>,
+  unset: string[],
+  restart: boolean,
+  options: ChangeOptions,
+  config: VPSConfig
+): Promise<void> {
+  for (const key of [...Object.keys(values), ...unset]) {
+    assertValidEnvKey(key);
+  }
+
+  const { projectDir, composeDoc, envFile, content } = await loadServiceEnv(
+    projectName,
+    alias,
+    config
+  );
+
+  // Validates the values before anything is changed
+  const updatedContent = unsetEnvValues(setEnvValues(content, values), unset);
+  const fileValues = parseEnvContent(content);
+
+  let composeChanged = false;
+  const notSet: string[] = [];
+  for (const key of unset) {
+    if (removeServiceEnvironment(composeDoc, alias, key)) {
+      composeChanged = true;
+    } else if (!(key in fileValues)) {
+      notSet.push(key);
+    }
+  }
+  for (const key of Object.keys(values)) {
+    if (removeServiceEnvironment(composeDoc, alias, key)) {
+      composeChanged = true;
+      log.info(`Moving ${key} from docker-compose.yml to the env file`);
+    }
+  }
+  if (
+    Object.keys(values).length > 0 &&
+    addServiceEnvFile(composeDoc, alias, envFile)
+  ) {
+    composeChanged = true;
+  }
+
+  if (notSet.length > 0) {
+    log.warn(`Not set for service '${alias}': ${notSet.join(", ")}`);
+  }
+  const changedKeys = [...Object.keys(values), ...unset].filter(
+    (key) => !notSet.includes(key)
+  );
+  if (updatedContent === content && !composeChanged) {
+    log.info("Nothing to change");
+    return;
+  }
+
+  // The env file isn't shown, it holds the values in plain text
+  if (
+    composeChanged &&
+    !(await planComposeChange(projectDir, composeDoc, options, config))
+  ) {
+    return;
+  }
+  if (!composeChanged && options.dryRun) {
+    log.info(`Variables to change in ${envFile}: ${changedKeys.join(", ")}`);
+    log.info("Dry run, nothing was changed");
+    return;
+  }
+
+  if (updatedContent !== content) {
+    await sshExec(
+      shellCommand(["mkdir", "-p", `${projectDir}/env`]),
+      getSSHOptions(config, { agentForward: true })
+    );
+    const uploadResult = await uploadContent(
+      updatedContent,
+      envFile,
+      getSSHOptions(config, { agentForward: true }),
+      { mode: "600" }
+    );
+    if (!uploadResult.success) {
+      log.error(`Failed to upload ${envFile}: ${uploadResult.stderr}`);
+      process.exit(1);
+    }
+  }
+
+  if (composeChanged) {
+    const backupFile = await writeComposeFile(projectDir, composeDoc, config);
+    if (backupFile) {
+      log.info(`Backup created on VPS at: ${backupFile}`);
+    }
+  }
+
+  log.ok(`Environment of '${alias}' updated: ${changedKeys.join(", ")}`);
+
+  if (!restart) {
+    log.info(
+      `The changes apply once '${alias}' is recreated, e.g. by ` +
+        `bin/compose up ${projectName} (or pass --restart)`
+    );
+    return;
+  }
 
-  if (serviceTypeLower === "mysql") {
-    log.warn("Remember to change MySQL passwords in docker-compose.yml on VPS");
+  log.info(`Recreating service '${alias}'...`);
+  const upResult = await sshExecStream(
+    shellCommandIn(projectDir, [
+      "docker",
+      "compose",
+      "up",
+      "-d",
+      "--no-deps",
+      "--force-recreate",
+      alias,
+    ]),
+    getSSHOptions(config, { agentForward: true })
+  );
+  if (!upResult.success) {
+    log.error(`Failed to recreate service '${alias}'`);
+    process.exit(1);
   }
+  log.ok(`Service '${alias}' recreated with the new environment`);
 }
 
 /**
- * Execute a command in a container
+ * Restart a docker-compose project
  */
-async function execProject(
+async function restartProject(
   projectName: string,
-  alias: string,
-  command: string,
-  config: { vpsHost: string; vpsUser: string }
+  config: VPSConfig
 ): Promise<void> {
-  if (!projectName || !alias || !command) {
-    log.error("Project name, container alias, and command are required");
+  if (!projectName) {
+    log.error("Project name is required");
     usage();
   }
+  assertValidName(projectName, "project name");
 
   const composeHome = await getComposeHome(config);
   const projectDir = `${composeHome}/${projectName}`;
-  const composeFile = `${projectDir}/docker-compose.yml`;
+  const composeFile = getComposeFilePath(projectDir);
 
   // Check if project exists
-  const dirExists = await sshExecQuiet(`[ -d "${projectDir}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const dirExists = await sshExecQuiet(
+    shellCommand(["test", "-d", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!dirExists.success) {
     log.error(`Project directory does not exist on VPS: ${projectDir}`);
@@ -571,92 +1957,214 @@ async function execProject(
     process.exit(1);
   }
 
-  const fileExists = await sshExecQuiet(`[ -f "${composeFile}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const fileExists = await sshExecQuiet(
+    shellCommand(["test", "-f", composeFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!fileExists.success) {
     log.error(`docker-compose.yml not found on VPS: ${composeFile}`);
     process.exit(1);
   }
 
-  // Check if container is running
-  const containerRunning = await sshExecQuiet(
-    `cd "${projectDir}" && docker compose ps -q ${alias} | grep -q .`,
-    {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    }
+  log.info(`Restarting docker-compose project '${projectName}' on VPS`);
+
+  const result = await sshExecStream(
+    shellCommandIn(projectDir, ["docker", "compose", "restart"]),
+    getSSHOptions(config, { agentForward: true })
   );
 
-  if (!containerRunning.success) {
-    log.error(`Container '${alias}' is not running`);
-    log.info(`Start it first with: bin/compose up ${projectName}`);
+  if (!result.success) {
+    log.error(`Failed to restart project '${projectName}'`);
     process.exit(1);
   }
 
-  // Try to fix permissions for Bun services before executing
-  const isBunService = await sshExec(
-    `grep -A 5 "^  ${alias}:" "${composeFile}" | grep -q "oven/bun"`,
-    {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    }
+  log.ok(`Project '${projectName}' restarted successfully`);
+}
+
+/**
+ * Write the vault secrets a project uses to the VPS
+ * Returns the services to recreate, as secrets they use were replaced
+ */
+async function pushProjectSecrets(
+  projectDir: string,
+  config: VPSConfig
+): Promise<string[]> {
+  const composeDoc = await readComposeFile(projectDir, config);
+  const names = getVaultSecrets(composeDoc, projectDir);
+  if (names.length === 0) {
+    return [];
+  }
+
+  const replaced = await pushSecrets(
+    openSecretsVault(),
+    names,
+    getSecretsDir(projectDir),
+    getSecretOwners(composeDoc),
+    config
   );
+  if (replaced.length > 0) {
+    log.info(`Updated secret(s) on VPS: ${replaced.join(", ")}`);
+  }
+  return getSecretServices(composeDoc, replaced);
+}
+
+// Default time compose up --wait waits for the services (seconds)
+const WAIT_DEFAULT_TIMEOUT = 120;
+
+// Interval between two checks of the services while waiting (ms)
+const WAIT_INTERVAL_MS = 2000;
+
+// Time a service without a healthcheck must run without restarts (seconds)
+const WAIT_STABLE_SECONDS = 10;
+
+// Restarts while waiting after which a service is considered crash looping
+const WAIT_MAX_RESTARTS = 3;
+
+/**
+ * Service that didn't become ready while waiting
+ */
+interface WaitFailure {
+  service: string;
+  reason: string;
+}
+
+/**
+ * Wait until all services of a project are healthy (with a healthcheck),
+ * running stably (without one) or completed (one-off containers)
+ * Fails early on unhealthy containers, crash loops and failed containers
+ * that aren't restarted; returns the services that didn't become ready
+ */
+async function waitForProject(
+  projectDir: string,
+  timeoutSeconds: number,
+  config: VPSConfig
+): Promise<WaitFailure[]> {
+  const services =
+    getComposeConfig(await readComposeFile(projectDir, config)).services ?? {};
+  const deadline = Date.now() + timeoutSeconds * 1000;
+
+  // Restart counts when waiting started, running since (by service)
+  const baseline: Record<string, number> = {};
+  const runningSince = new Map<string, { since: number; restarts: number }>();
+  const ready = new Set<string>();
 
   log.info(
-    `Executing command in container '${alias}' of project '${projectName}'`
+    `Waiting up to ${timeoutSeconds}s for the services to become ready...`
   );
 
-  // Execute command
-  const result = await sshExec(
-    `cd "${projectDir}" && docker compose exec -T ${alias} ${command}`,
-    {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    }
-  );
+  while (true) {
+    const statuses = await getComposeStatus(projectDir, config);
+    const restartCounts = await getComposeRestarts(projectDir, config);
+    const failures: WaitFailure[] = [];
+    const pending: WaitFailure[] = [];
+
+    for (const [alias, service] of Object.entries(services)) {
+      const status = statuses.find((entry) => entry.service === alias);
+      if (!status) {
+        pending.push({ service: alias, reason: "no container" });
+        continue;
+      }
 
-  if (result.stdout) {
-    log.raw(result.stdout);
-  }
-  if (result.stderr) {
-    log.raw(result.stderr);
-  }
+      const count = restartCounts[status.container] ?? 0;
+      baseline[status.container] ??= count;
+      const restarts = count - (baseline[status.container] ?? count);
+      // Restarted by docker after it failed (restart policy)
+      const restartPolicy = service?.restart ?? "no";
+      const restarted =
+        restartPolicy === "always" ||
+        restartPolicy === "unless-stopped" ||
+        (restartPolicy.startsWith("on-failure") && status.exitCode !== 0);
+
+      let readyAs: string | undefined;
+      if (restarts >= WAIT_MAX_RESTARTS) {
+        failures.push({
+          service: alias,
+          reason: `restarted ${restarts} times (crash loop)`,
+        });
+      } else if (status.state === "exited" || status.state === "dead") {
+        if (!restarted && status.exitCode === 0) {
+          readyAs = "completed";
+        } else if (!restarted) {
+          failures.push({
+            service: alias,
+            reason: `exited with code ${status.exitCode}`,
+          });
+        } else {
+          pending.push({ service: alias, reason: status.state });
+        }
+      } else if (status.state !== "running") {
+        pending.push({ service: alias, reason: status.state });
+      } else if (status.health === "unhealthy") {
+        failures.push({ service: alias, reason: "unhealthy" });
+      } else if (status.health === "healthy") {
+        readyAs = "healthy";
+      } else if (status.health) {
+        pending.push({ service: alias, reason: `health ${status.health}` });
+      } else {
+        // Without a healthcheck, running without restarts for a while
+        const running = runningSince.get(alias);
+        if (!running || running.restarts !== count) {
+          runningSince.set(alias, { since: Date.now(), restarts: count });
+        }
+        const seconds = Math.floor(
+          (Date.now() - (runningSince.get(alias)?.since ?? Date.now())) / 1000
+        );
+        if (seconds >= WAIT_STABLE_SECONDS) {
+          readyAs = "running";
+        } else {
+          pending.push({ service: alias, reason: `running for ${seconds}s` });
+        }
+      }
 
-  // Exit with the same code as the command
-  if (!result.success) {
-    process.exit(result.exitCode ?? 1);
+      if (readyAs && !ready.has(alias)) {
+        ready.add(alias);
+        log.ok(`${alias} is ${readyAs}`);
+      }
+      if (!readyAs) {
+        ready.delete(alias);
+      }
+    }
+
+    if (failures.length > 0) {
+      return failures;
+    }
+    if (pending.length === 0) {
+      return [];
+    }
+    if (Date.now() >= deadline) {
+      return pending.map(({ service, reason }) => ({
+        service,
+        reason: `not ready after ${timeoutSeconds}s (${reason})`,
+      }));
+    }
+    await Bun.sleep(WAIT_INTERVAL_MS);
   }
 }
 
 /**
- * Restart a docker-compose project
+ * Start a docker-compose project
  */
-async function restartProject(
+async function upProject(
   projectName: string,
-  config: { vpsHost: string; vpsUser: string }
+  waitTimeout: number | undefined,
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName) {
     log.error("Project name is required");
     usage();
   }
+  assertValidName(projectName, "project name");
 
   const composeHome = await getComposeHome(config);
   const projectDir = `${composeHome}/${projectName}`;
-  const composeFile = `${projectDir}/docker-compose.yml`;
+  const composeFile = getComposeFilePath(projectDir);
 
   // Check if project exists
-  const dirExists = await sshExecQuiet(`[ -d "${projectDir}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const dirExists = await sshExecQuiet(
+    shellCommand(["test", "-d", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!dirExists.success) {
     log.error(`Project directory does not exist on VPS: ${projectDir}`);
@@ -664,62 +2172,101 @@ async function restartProject(
     process.exit(1);
   }
 
-  const fileExists = await sshExecQuiet(`[ -f "${composeFile}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const fileExists = await sshExecQuiet(
+    shellCommand(["test", "-f", composeFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!fileExists.success) {
     log.error(`docker-compose.yml not found on VPS: ${composeFile}`);
     process.exit(1);
   }
 
-  log.info(`Restarting docker-compose project '${projectName}' on VPS`);
+  const recreate = await pushProjectSecrets(projectDir, config);
 
-  const result = await sshExec(`cd "${projectDir}" && docker compose restart`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  log.info(`Starting docker-compose project '${projectName}' on VPS`);
 
-  if (result.stdout) {
-    log.raw(result.stdout);
-  }
-  if (result.stderr) {
-    log.raw(result.stderr);
-  }
+  const result = await sshExecStream(
+    shellCommandIn(projectDir, ["docker", "compose", "up", "-d"]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!result.success) {
-    log.error(`Failed to restart project '${projectName}'`);
+    log.error(`Failed to start project '${projectName}'`);
     process.exit(1);
   }
 
-  log.ok(`Project '${projectName}' restarted successfully`);
+  if (recreate.length > 0) {
+    log.info(`Recreating ${recreate.join(", ")} with the changed secrets`);
+    const recreateResult = await sshExecStream(
+      shellCommandIn(projectDir, [
+        "docker",
+        "compose",
+        "up",
+        "-d",
+        "--no-deps",
+        "--force-recreate",
+        ...recreate,
+      ]),
+      getSSHOptions(config, { agentForward: true })
+    );
+    if (!recreateResult.success) {
+      log.error(`Failed to recreate ${recreate.join(", ")}`);
+      process.exit(1);
+    }
+  }
+
+  if (waitTimeout !== undefined) {
+    const failures = await waitForProject(projectDir, waitTimeout, config);
+    for (const { service, reason } of failures) {
+      log.error(`Service '${service}' ${reason}`);
+    }
+    for (const { service } of failures) {
+      log.info(`Last log lines of '${service}':`);
+      await sshExecStream(
+        shellCommandIn(projectDir, [
+          "docker",
+          "compose",
+          "logs",
+          "--no-color",
+          "--tail",
+          "20",
+          service,
+        ]),
+        getSSHOptions(config, { agentForward: true })
+      );
+    }
+    if (failures.length > 0) {
+      log.error(`Project '${projectName}' did not become ready`);
+      process.exit(1);
+    }
+  }
+
+  log.ok(`Project '${projectName}' started successfully`);
 }
 
 /**
- * Start a docker-compose project
+ * Stop a docker-compose project
  */
-async function upProject(
+async function downProject(
   projectName: string,
-  config: { vpsHost: string; vpsUser: string }
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName) {
     log.error("Project name is required");
     usage();
   }
+  assertValidName(projectName, "project name");
 
   const composeHome = await getComposeHome(config);
   const projectDir = `${composeHome}/${projectName}`;
-  const composeFile = `${projectDir}/docker-compose.yml`;
+  const composeFile = getComposeFilePath(projectDir);
 
   // Check if project exists
-  const dirExists = await sshExecQuiet(`[ -d "${projectDir}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const dirExists = await sshExecQuiet(
+    shellCommand(["test", "-d", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!dirExists.success) {
     log.error(`Project directory does not exist on VPS: ${projectDir}`);
@@ -727,102 +2274,83 @@ async function upProject(
     process.exit(1);
   }
 
-  const fileExists = await sshExecQuiet(`[ -f "${composeFile}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const fileExists = await sshExecQuiet(
+    shellCommand(["test", "-f", composeFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!fileExists.success) {
     log.error(`docker-compose.yml not found on VPS: ${composeFile}`);
     process.exit(1);
   }
 
-  log.info(`Starting docker-compose project '${projectName}' on VPS`);
-
-  const result = await sshExec(`cd "${projectDir}" && docker compose up -d`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  log.info(`Stopping docker-compose project '${projectName}' on VPS`);
+  log.info('Note: Volumes will persist and can be reused on next "up"');
 
-  if (result.stdout) {
-    log.raw(result.stdout);
-  }
-  if (result.stderr) {
-    log.raw(result.stderr);
-  }
+  const result = await sshExecStream(
+    shellCommandIn(projectDir, ["docker", "compose", "down"]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!result.success) {
-    log.error(`Failed to start project '${projectName}'`);
+    log.error(`Failed to stop project '${projectName}'`);
     process.exit(1);
   }
 
-  log.ok(`Project '${projectName}' started successfully`);
+  log.ok(`Project '${projectName}' stopped successfully`);
 }
 
 /**
- * Stop a docker-compose project
+ * Stop a project, remove its volumes and delete its directory
+ * The directory is archived to <compose home>/.archive first (without its
+ * secrets, which are kept in the vault)
  */
-async function downProject(
+async function destroyProject(
   projectName: string,
-  config: { vpsHost: string; vpsUser: string }
+  yes: boolean,
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName) {
     log.error("Project name is required");
     usage();
   }
+  assertValidName(projectName, "project name");
 
   const composeHome = await getComposeHome(config);
   const projectDir = `${composeHome}/${projectName}`;
-  const composeFile = `${projectDir}/docker-compose.yml`;
 
   // Check if project exists
-  const dirExists = await sshExecQuiet(`[ -d "${projectDir}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const dirExists = await sshExecQuiet(
+    shellCommand(["test", "-d", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!dirExists.success) {
     log.error(`Project directory does not exist on VPS: ${projectDir}`);
-    log.info(`Initialize it first with: bin/compose init ${projectName}`);
-    process.exit(1);
-  }
-
-  const fileExists = await sshExecQuiet(`[ -f "${composeFile}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
-
-  if (!fileExists.success) {
-    log.error(`docker-compose.yml not found on VPS: ${composeFile}`);
     process.exit(1);
   }
 
-  log.info(`Stopping docker-compose project '${projectName}' on VPS`);
-  log.info('Note: Volumes will persist and can be reused on next "up"');
-
-  const result = await sshExec(`cd "${projectDir}" && docker compose down`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  log.alert(
+    `This stops project '${projectName}', deletes its volumes (all data ` +
+      `in them) and deletes ${projectDir}`
+  );
 
-  if (result.stdout) {
-    log.raw(result.stdout);
-  }
-  if (result.stderr) {
-    log.raw(result.stderr);
+  if (!yes) {
+    const answer = prompt(`Type the project name to confirm:`);
+    if (answer?.trim() !== projectName) {
+      log.warn("Aborted, project left unchanged");
+      process.exit(1);
+    }
   }
 
-  if (!result.success) {
-    log.error(`Failed to stop project '${projectName}'`);
-    process.exit(1);
-  }
+  log.info(
+    `Archiving ${projectDir}, then removing the containers and volumes of ` +
+      `project '${projectName}'`
+  );
+  const archiveFile = await destroyComposeProject(projectName, config);
 
-  log.ok(`Project '${projectName}' stopped successfully`);
+  log.ok(`Project '${projectName}' destroyed`);
+  log.info(`Archive of the project directory on VPS: ${archiveFile}`);
 }
 
 /**
@@ -831,23 +2359,24 @@ async function downProject(
 async function startService(
   projectName: string,
   serviceName: string,
-  config: { vpsHost: string; vpsUser: string }
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName || !serviceName) {
     log.error("Project name and service name are required");
     usage();
   }
+  assertValidName(projectName, "project name");
+  assertValidName(serviceName, "service name");
 
   const composeHome = await getComposeHome(config);
   const projectDir = `${composeHome}/${projectName}`;
-  const composeFile = `${projectDir}/docker-compose.yml`;
+  const composeFile = getComposeFilePath(projectDir);
 
   // Check if project exists
-  const dirExists = await sshExecQuiet(`[ -d "${projectDir}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const dirExists = await sshExecQuiet(
+    shellCommand(["test", "-d", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!dirExists.success) {
     log.error(`Project directory does not exist on VPS: ${projectDir}`);
@@ -855,11 +2384,10 @@ async function startService(
     process.exit(1);
   }
 
-  const fileExists = await sshExecQuiet(`[ -f "${composeFile}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const fileExists = await sshExecQuiet(
+    shellCommand(["test", "-f", composeFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!fileExists.success) {
     log.error(`docker-compose.yml not found on VPS: ${composeFile}`);
@@ -870,22 +2398,11 @@ async function startService(
     `Starting service '${serviceName}' in project '${projectName}' on VPS`
   );
 
-  const result = await sshExec(
-    `cd "${projectDir}" && docker compose start ${serviceName}`,
-    {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    }
+  const result = await sshExecStream(
+    shellCommandIn(projectDir, ["docker", "compose", "start", serviceName]),
+    getSSHOptions(config, { agentForward: true })
   );
 
-  if (result.stdout) {
-    log.raw(result.stdout);
-  }
-  if (result.stderr) {
-    log.raw(result.stderr);
-  }
-
   if (!result.success) {
     log.error(`Failed to start service '${serviceName}'`);
     process.exit(1);
@@ -900,23 +2417,24 @@ async function startService(
 async function stopService(
   projectName: string,
   serviceName: string,
-  config: { vpsHost: string; vpsUser: string }
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName || !serviceName) {
     log.error("Project name and service name are required");
     usage();
   }
+  assertValidName(projectName, "project name");
+  assertValidName(serviceName, "service name");
 
   const composeHome = await getComposeHome(config);
   const projectDir = `${composeHome}/${projectName}`;
-  const composeFile = `${projectDir}/docker-compose.yml`;
+  const composeFile = getComposeFilePath(projectDir);
 
   // Check if project exists
-  const dirExists = await sshExecQuiet(`[ -d "${projectDir}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const dirExists = await sshExecQuiet(
+    shellCommand(["test", "-d", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!dirExists.success) {
     log.error(`Project directory does not exist on VPS: ${projectDir}`);
@@ -924,11 +2442,10 @@ async function stopService(
     process.exit(1);
   }
 
-  const fileExists = await sshExecQuiet(`[ -f "${composeFile}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const fileExists = await sshExecQuiet(
+    shellCommand(["test", "-f", composeFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!fileExists.success) {
     log.error(`docker-compose.yml not found on VPS: ${composeFile}`);
@@ -939,22 +2456,11 @@ async function stopService(
     `Stopping service '${serviceName}' in project '${projectName}' on VPS`
   );
 
-  const result = await sshExec(
-    `cd "${projectDir}" && docker compose stop ${serviceName}`,
-    {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    }
+  const result = await sshExecStream(
+    shellCommandIn(projectDir, ["docker", "compose", "stop", serviceName]),
+    getSSHOptions(config, { agentForward: true })
   );
 
-  if (result.stdout) {
-    log.raw(result.stdout);
-  }
-  if (result.stderr) {
-    log.raw(result.stderr);
-  }
-
   if (!result.success) {
     log.error(`Failed to stop service '${serviceName}'`);
     process.exit(1);
@@ -967,14 +2473,23 @@ async function stopService(
  * Main compose function
  */
 async function compose(): Promise<void> {
-  const args = process.argv.slice(2);
+  const { hostName, args } = extractHostOption(process.argv.slice(2));
 
   if (args.length === 0) {
     usage();
     return;
   }
 
-  const config = await loadAndValidateVPSConfig(["vpsHost", "vpsUser"]);
+  // Listing service types doesn't need a VPS
+  if (args[0] === "templates") {
+    await listTemplates();
+    return;
+  }
+
+  const config = await loadAndValidateVPSConfig(
+    ["vpsHost", "vpsUser"],
+    hostName
+  );
 
   const command = args[0];
   const commandArgs = args.slice(1);
@@ -982,32 +2497,301 @@ async function compose(): Promise<void> {
   try {
     switch (command) {
       case "init":
-        if (commandArgs.length < 1) {
+        const initArgs = parseOptions(commandArgs, ["--dry-run", "--yes"]);
+        if (initArgs.positional.length < 1) {
           log.error("Project name required");
           usage();
         }
-        await initProject(commandArgs[0], config);
+        await initProject(
+          initArgs.positional[0] ?? "",
+          {
+            dryRun: initArgs.flags.has("--dry-run"),
+            yes: initArgs.flags.has("--yes"),
+          },
+          config
+        );
         break;
 
       case "add":
-        if (commandArgs.length < 3) {
+        const addArgs = parseOptions(commandArgs, ["--dry-run", "--yes"]);
+        if (addArgs.positional.length < 3) {
           log.error("Project name, service type, and alias required");
           usage();
         }
         await addService(
-          commandArgs[0],
-          commandArgs[1],
-          commandArgs[2],
+          addArgs.positional[0] ?? "",
+          addArgs.positional[1] ?? "",
+          addArgs.positional[2] ?? "",
+          addArgs.positional.slice(3),
+          {
+            dryRun: addArgs.flags.has("--dry-run"),
+            yes: addArgs.flags.has("--yes"),
+          },
+          config
+        );
+        break;
+
+      case "list":
+        await listProjects(config);
+        break;
+
+      case "ps":
+        const psArgs = commandArgs.filter((arg) => arg !== "--json");
+        if (psArgs.length < 1) {
+          log.error("Project name required");
+          usage();
+        }
+        await psProject(
+          psArgs[0] ?? "",
+          commandArgs.includes("--json"),
+          config
+        );
+        break;
+
+      case "logs":
+        const { positional: logsArgs, options: logsOptions } =
+          parseLogsArgs(commandArgs);
+        if (logsArgs.length < 1) {
+          log.error("Project name required");
+          usage();
+        }
+        await logsProject(
+          logsArgs[0] ?? "",
+          logsArgs.slice(1),
+          logsOptions,
+          config
+        );
+        break;
+
+      case "backup":
+        const backupArgs = parseOptions(
+          commandArgs,
+          ["--download", "--list", "--unschedule"],
+          ["--keep", "--schedule"]
+        );
+        if (backupArgs.positional.length < 2) {
+          log.error("Project name and service alias required");
+          usage();
+        }
+        const keep = Number(
+          backupArgs.values.get("--keep") ?? DEFAULT_BACKUP_KEEP
+        );
+        if (!Number.isInteger(keep) || keep < 1) {
+          log.error(`Invalid --keep value: ${backupArgs.values.get("--keep")}`);
+          process.exit(1);
+        }
+        await backupService(
+          backupArgs.positional[0] ?? "",
+          backupArgs.positional[1] ?? "",
+          {
+            keep,
+            download: backupArgs.flags.has("--download"),
+            list: backupArgs.flags.has("--list"),
+            schedule: backupArgs.values.get("--schedule"),
+            unschedule: backupArgs.flags.has("--unschedule"),
+          },
+          config
+        );
+        break;
+
+      case "restore":
+        const restoreArgs = parseOptions(commandArgs, ["--yes"]);
+        if (restoreArgs.positional.length < 3) {
+          log.error("Project name, service alias, and backup file required");
+          usage();
+        }
+        await restoreService(
+          restoreArgs.positional[0] ?? "",
+          restoreArgs.positional[1] ?? "",
+          restoreArgs.positional[2] ?? "",
+          restoreArgs.flags.has("--yes"),
+          config
+        );
+        break;
+
+      case "volume":
+        const volumeCommand = commandArgs[0];
+        if (volumeCommand === "backup") {
+          const volumeArgs = parseOptions(
+            commandArgs.slice(1),
+            ["--stop"],
+            ["--output"]
+          );
+          if (volumeArgs.positional.length < 1) {
+            log.error("Project name required");
+            usage();
+          }
+          await backupVolumes(
+            volumeArgs.positional[0] ?? "",
+            volumeArgs.positional[1],
+            volumeArgs.values.get("--output") ?? ".",
+            volumeArgs.flags.has("--stop"),
+            config
+          );
+        } else if (volumeCommand === "restore") {
+          const volumeArgs = parseOptions(commandArgs.slice(1), ["--yes"]);
+          if (volumeArgs.positional.length < 3) {
+            log.error("Project name, volume, and archive file required");
+            usage();
+          }
+          await restoreVolume(
+            volumeArgs.positional[0] ?? "",
+            volumeArgs.positional[1] ?? "",
+            volumeArgs.positional[2] ?? "",
+            volumeArgs.flags.has("--yes"),
+            config
+          );
+        } else {
+          log.error(`Unknown volume command: ${volumeCommand ?? ""}`);
+          usage();
+        }
+        break;
+
+      case "env":
+        const envCommand = commandArgs[0];
+        const envArgs = parseOptions(commandArgs.slice(1), [
+          "--restart",
+          "--show",
+          "--dry-run",
+          "--yes",
+        ]);
+        const envOptions = {
+          dryRun: envArgs.flags.has("--dry-run"),
+          yes: envArgs.flags.has("--yes"),
+        };
+        const [envProject = "", envAlias = "", ...envKeys] = envArgs.positional;
+        if (envArgs.positional.length < 2) {
+          log.error("Project name and service alias required");
+          usage();
+        }
+        if (envCommand === "list") {
+          await listServiceEnv(
+            envProject,
+            envAlias,
+            envArgs.flags.has("--show"),
+            config
+          );
+        } else if (envCommand === "get") {
+          if (envKeys.length !== 1) {
+            log.error("Variable name required");
+            usage();
+          }
+          await getServiceEnv(envProject, envAlias, envKeys[0] ?? "", config);
+        } else if (envCommand === "set") {
+          const envValues: Record<string, string> = {};
+          for (const entry of envKeys) {
+            const separator = entry.indexOf("=");
+            if (separator === -1) {
+              log.error(`Invalid variable: ${entry} (expected KEY=VALUE)`);
+              process.exit(1);
+            }
+            envValues[entry.slice(0, separator)] = entry.slice(separator + 1);
+          }
+          if (envKeys.length === 0) {
+            log.error("At least one KEY=VALUE required");
+            usage();
+          }
+          await updateServiceEnv(
+            envProject,
+            envAlias,
+            envValues,
+            [],
+            envArgs.flags.has("--restart"),
+            envOptions,
+            config
+          );
+        } else if (envCommand === "unset") {
+          if (envKeys.length === 0) {
+            log.error("At least one variable name required");
+            usage();
+          }
+          await updateServiceEnv(
+            envProject,
+            envAlias,
+            {},
+            envKeys,
+            envArgs.flags.has("--restart"),
+            envOptions,
+            config
+          );
+        } else {
+          log.error(`Unknown env command: ${envCommand ?? ""}`);
+          usage();
+        }
+        break;
+
+      case "remove":
+        const removeArgs = parseOptions(commandArgs, [
+          "--purge",
+          "--dry-run",
+          "--yes",
+        ]);
+        if (removeArgs.positional.length < 2) {
+          log.error("Project name and service alias required");
+          usage();
+        }
+        await removeService(
+          removeArgs.positional[0] ?? "",
+          removeArgs.positional[1] ?? "",
+          removeArgs.flags.has("--purge"),
+          {
+            dryRun: removeArgs.flags.has("--dry-run"),
+            yes: removeArgs.flags.has("--yes"),
+          },
+          config
+        );
+        break;
+
+      case "destroy":
+        const destroyArgs = commandArgs.filter((arg) => arg !== "--yes");
+        if (destroyArgs.length < 1) {
+          log.error("Project name required");
+          usage();
+        }
+        await destroyProject(
+          destroyArgs[0] ?? "",
+          commandArgs.includes("--yes"),
+          config
+        );
+        break;
+
+      case "route":
+        if (commandArgs.length < 4) {
+          log.error("Project name, service alias, domain, and port required");
+          usage();
+        }
+        await routeService(
+          commandArgs[0] ?? "",
+          commandArgs[1] ?? "",
+          commandArgs[2] ?? "",
+          commandArgs[3] ?? "",
           config
         );
         break;
 
       case "up":
-        if (commandArgs.length < 1) {
+        const upArgs = parseOptions(commandArgs, ["--wait"], ["--timeout"]);
+        if (upArgs.positional.length < 1) {
           log.error("Project name required");
           usage();
         }
-        await upProject(commandArgs[0], config);
+        // --timeout implies --wait
+        const waitTimeout = Number(
+          upArgs.values.get("--timeout") ?? WAIT_DEFAULT_TIMEOUT
+        );
+        if (!Number.isInteger(waitTimeout) || waitTimeout < 1) {
+          log.error(
+            `Invalid --timeout value: ${upArgs.values.get("--timeout")}`
+          );
+          process.exit(1);
+        }
+        await upProject(
+          upArgs.positional[0] ?? "",
+          upArgs.flags.has("--wait") || upArgs.values.has("--timeout")
+            ? waitTimeout
+            : undefined,
+          config
+        );
         break;
 
       case "down":
@@ -1043,13 +2827,41 @@ async function compose(): Promise<void> {
         break;
 
       case "exec":
-        if (commandArgs.length < 3) {
+        // --tty is only an option before the command starts
+        let tty = false;
+        const execArgs: string[] = [];
+        for (const arg of commandArgs) {
+          if (execArgs.length < 3 && (arg === "--tty" || arg === "-t")) {
+            tty = true;
+            continue;
+          }
+          execArgs.push(arg);
+        }
+        if (execArgs.length < 3) {
           log.error("Project name, container alias, and command required");
           usage();
         }
-        // Join all remaining args as the command to execute
-        const execCommand = commandArgs.slice(2).join(" ");
-        await execProject(commandArgs[0], commandArgs[1], execCommand, config);
+        // All remaining args form the command (argv) to execute
+        await execProject(
+          execArgs[0] ?? "",
+          execArgs[1] ?? "",
+          execArgs.slice(2),
+          tty,
+          config
+        );
+        break;
+
+      case "shell":
+        if (commandArgs.length < 2) {
+          log.error("Project name and container alias required");
+          usage();
+        }
+        await shellProject(
+          commandArgs[0] ?? "",
+          commandArgs[1] ?? "",
+          commandArgs[2],
+          config
+        );
         break;
 
       default:
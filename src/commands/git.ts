@@ -1,8 +1,30 @@
 #!/usr/bin/env bun
-import { loadAndValidateVPSConfig } from "../lib/config.js";
+import {
+  loadAndValidateVPSConfig,
+  extractHostOption,
+  getSSHOptions,
+} from "../lib/config.js";
 import { log } from "../lib/logger.js";
-import { sshExec, sshExecQuiet, sshExecStdout } from "../lib/ssh.js";
-import { getComposeHome } from "../lib/compose.js";
+import {
+  sshExec,
+  sshExecStream,
+  sshExecQuiet,
+  sshExecStdout,
+  shellCommand,
+  shellCommandIn,
+} from "../lib/ssh.js";
+import { getComposeHome, assertValidName } from "../lib/compose.js";
+import type { VPSConfig } from "../lib/types.js";
+import { posix } from "path";
+
+/**
+ * Validate a branch, tag or commit before it is passed to git
+ */
+function assertValidRef(ref: string): void {
+  if (!/^[A-Za-z0-9_][A-Za-z0-9_.\/-]*$/.test(ref) || ref.includes("..")) {
+    throw new Error(`Invalid branch or commit '${ref}'`);
+  }
+}
 
 /**
  * Get the app directory path for a project and alias
@@ -10,8 +32,11 @@ import { getComposeHome } from "../lib/compose.js";
 async function getAppDir(
   projectName: string,
   alias: string,
-  config: { vpsHost: string; vpsUser: string }
+  config: VPSConfig
 ): Promise<string> {
+  assertValidName(projectName, "project name");
+  assertValidName(alias, "container alias");
+
   const composeHome = await getComposeHome(config);
   return `${composeHome}/${projectName}/apps/${alias}`;
 }
@@ -19,15 +44,11 @@ async function getAppDir(
 /**
  * Ensure the app directory is a git repository
  */
-async function ensureGitRepo(
-  appDir: string,
-  config: { vpsHost: string; vpsUser: string }
-): Promise<void> {
-  const gitExists = await sshExecQuiet(`[ -d "${appDir}/.git" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+async function ensureGitRepo(appDir: string, config: VPSConfig): Promise<void> {
+  const gitExists = await sshExecQuiet(
+    shellCommand(["test", "-d", `${appDir}/.git`]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!gitExists.success) {
     log.error(`Not a git repository: ${appDir}`);
@@ -43,7 +64,7 @@ export async function cloneRepo(
   projectName: string,
   alias: string,
   cloneUrl: string,
-  config: { vpsHost: string; vpsUser: string }
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName || !alias || !cloneUrl) {
     log.error("Project name, container alias, and clone URL are required");
@@ -53,11 +74,10 @@ export async function cloneRepo(
   const appDir = await getAppDir(projectName, alias, config);
 
   // Check if it's already a git repository
-  const gitExists = await sshExecQuiet(`[ -d "${appDir}/.git" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const gitExists = await sshExecQuiet(
+    shellCommand(["test", "-d", `${appDir}/.git`]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (gitExists.success) {
     log.warn(`Git repository already exists on VPS: ${appDir}`);
@@ -66,19 +86,17 @@ export async function cloneRepo(
   }
 
   // If directory exists but isn't a git repo, remove it
-  const dirExists = await sshExecQuiet(`[ -d "${appDir}" ]`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  const dirExists = await sshExecQuiet(
+    shellCommand(["test", "-d", appDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (dirExists.success) {
     log.info(`Removing existing non-git directory: ${appDir}`);
-    await sshExec(`rm -rf "${appDir}"`, {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    });
+    await sshExec(
+      shellCommand(["rm", "-rf", appDir]),
+      getSSHOptions(config, { agentForward: true })
+    );
   }
 
   log.info(`Cloning repository into ${appDir} on VPS`);
@@ -87,26 +105,25 @@ export async function cloneRepo(
   if (cloneUrl.includes("github.com")) {
     await sshExec(
       "ssh-keyscan -H github.com >> ~/.ssh/known_hosts 2>/dev/null || true",
-      {
-        host: config.vpsHost,
-        user: config.vpsUser,
-        agentForward: true,
-      }
+      getSSHOptions(config, { agentForward: true })
     );
   }
 
   // Create parent directories and clone
-  await sshExec(`mkdir -p "$(dirname "${appDir}")"`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
-
-  await sshExec(`git clone "${cloneUrl}" "${appDir}"`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
+  await sshExec(
+    shellCommand(["mkdir", "-p", posix.dirname(appDir)]),
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  const result = await sshExecStream(
+    shellCommand(["git", "clone", "--", cloneUrl, appDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  if (!result.success) {
+    log.error(`Failed to clone repository`);
+    process.exit(1);
+  }
 
   log.ok(`Repository cloned successfully to: ${appDir}`);
 }
@@ -117,7 +134,7 @@ export async function cloneRepo(
 export async function pullRepo(
   projectName: string,
   alias: string,
-  config: { vpsHost: string; vpsUser: string }
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName || !alias) {
     log.error("Project name and container alias are required");
@@ -130,18 +147,10 @@ export async function pullRepo(
 
     log.info(`Pulling latest changes from ${appDir} on VPS`);
 
-    const result = await sshExec(`cd "${appDir}" && git pull`, {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    });
-
-    if (result.stdout) {
-      log.raw(result.stdout);
-    }
-    if (result.stderr) {
-      log.raw(result.stderr);
-    }
+    const result = await sshExecStream(
+      shellCommandIn(appDir, ["git", "pull"]),
+      getSSHOptions(config, { agentForward: true })
+    );
 
     if (!result.success) {
       log.error(`Failed to pull from repository`);
@@ -165,7 +174,7 @@ export async function pullRepo(
 export async function branchRepo(
   projectName: string,
   alias: string,
-  config: { vpsHost: string; vpsUser: string }
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName || !alias) {
     log.error("Project name and container alias are required");
@@ -178,11 +187,10 @@ export async function branchRepo(
 
     log.info(`Getting branch information from ${appDir} on VPS`);
 
-    const result = await sshExec(`cd "${appDir}" && git branch -a`, {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    });
+    const result = await sshExec(
+      shellCommandIn(appDir, ["git", "branch", "-a"]),
+      getSSHOptions(config, { agentForward: true })
+    );
 
     if (result.stdout) {
       log.raw(result.stdout);
@@ -198,12 +206,8 @@ export async function branchRepo(
 
     // Show current branch
     const currentBranchResult = await sshExecStdout(
-      `cd "${appDir}" && git branch --show-current`,
-      {
-        host: config.vpsHost,
-        user: config.vpsUser,
-        agentForward: true,
-      }
+      shellCommandIn(appDir, ["git", "branch", "--show-current"]),
+      getSSHOptions(config, { agentForward: true })
     );
 
     if (currentBranchResult) {
@@ -228,12 +232,13 @@ export async function checkoutRepo(
   projectName: string,
   alias: string,
   ref: string,
-  config: { vpsHost: string; vpsUser: string }
+  config: VPSConfig
 ): Promise<void> {
   if (!projectName || !alias || !ref) {
     log.error("Project name, container alias, and branch/commit are required");
     process.exit(1);
   }
+  assertValidRef(ref);
 
   const appDir = await getAppDir(projectName, alias, config);
   await ensureGitRepo(appDir, config);
@@ -241,24 +246,15 @@ export async function checkoutRepo(
   log.info(`Checking out ${ref} in ${appDir} on VPS`);
 
   // First, fetch to ensure we have the latest refs
-  await sshExec(`cd "${appDir}" && git fetch`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
-
-  const result = await sshExec(`cd "${appDir}" && git checkout "${ref}"`, {
-    host: config.vpsHost,
-    user: config.vpsUser,
-    agentForward: true,
-  });
-
-  if (result.stdout) {
-    log.raw(result.stdout);
-  }
-  if (result.stderr) {
-    log.raw(result.stderr);
-  }
+  await sshExecStream(
+    shellCommandIn(appDir, ["git", "fetch"]),
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  const result = await sshExecStream(
+    shellCommandIn(appDir, ["git", "checkout", ref]),
+    getSSHOptions(config, { agentForward: true })
+  );
 
   if (!result.success) {
     log.error(`Failed to checkout ${ref}`);
@@ -271,11 +267,14 @@ export async function checkoutRepo(
  * Print usage information
  */
 function usage(): void {
-  log.raw(`Usage: bin/git <command> [arguments]
+  log.raw(`Usage: bin/git [--host <name>] <command> [arguments]
+
+Options:
+  --host <name>     Select a host from bin/inventory.yml
 
 Environment Variables:
-  VPS_HOST          VPS hostname or IP (required)
-  VPS_USER          VPS username (required)
+  VPS_HOST          VPS hostname or IP (required without inventory)
+  VPS_USER          VPS username (required without inventory)
 
 Commands:
   clone <project> <alias> <url>  Clone a Git repository into ~/<project>/apps/<alias>
@@ -288,7 +287,8 @@ Examples:
   bin/git clone myapp app https://github.com/user/repo.git
   bin/git pull myapp app
   bin/git branch myapp app
-  bin/git checkout myapp app main`);
+  bin/git checkout myapp app main
+  bin/git --host staging pull myapp app`);
   process.exit(1);
 }
 
@@ -296,7 +296,7 @@ Examples:
  * Main git function
  */
 async function git(): Promise<void> {
-  const args = process.argv.slice(2);
+  const { hostName, args } = extractHostOption(process.argv.slice(2));
 
   if (args.length === 0) {
     usage();
@@ -304,7 +304,10 @@ async function git(): Promise<void> {
   }
 
   try {
-    const config = await loadAndValidateVPSConfig(["vpsHost", "vpsUser"]);
+    const config = await loadAndValidateVPSConfig(
+      ["vpsHost", "vpsUser"],
+      hostName
+    );
 
     const command = args[0];
     const commandArgs = args.slice(1);
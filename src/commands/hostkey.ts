@@ -0,0 +1,266 @@
+#!/usr/bin/env bun
+import {
+  loadAndValidateVPSConfig,
+  extractHostOption,
+  getSSHOptions,
+} from "../lib/config.js";
+import { log } from "../lib/logger.js";
+import { sshExec } from "../lib/ssh.js";
+import {
+  getKnownHostsFile,
+  getPinnedHostKeys,
+  scanHostKeys,
+  verifyHostKeys,
+  pinHostKeys,
+  fingerprint,
+  formatHostKey,
+  formatHostKeyDiff,
+} from "../lib/hostkeys.js";
+import type { HostKey, VPSConfig } from "../lib/types.js";
+
+/**
+ * Print usage information
+ */
+function usage(): void {
+  log.raw(`Usage: bin/hostkey [--host <name>] <command> [--yes]
+
+Options:
+  --host <name>     Select a host from bin/inventory.yml
+  --yes             Don't ask for confirmation
+
+Commands:
+  show              Show pinned and currently presented host keys
+  pin               Pin the presented host key (only when none is pinned)
+  repin             Replace the pinned host key with the presented one
+  rotate            Generate new host keys on the VPS and pin them
+
+Pinned host keys are stored in: ${getKnownHostsFile()}
+
+Examples:
+  bin/hostkey show
+  bin/hostkey --host staging pin
+  bin/hostkey repin --yes
+  bin/hostkey rotate`);
+  process.exit(1);
+}
+
+/**
+ * Show pinned and presented host keys
+ */
+async function showHostKey(config: VPSConfig): Promise<void> {
+  const pinned = await getPinnedHostKeys(config.vpsHost);
+
+  log.info(`Pinned host keys of ${config.vpsHost}:`);
+  if (pinned.length === 0) {
+    log.raw("  (none)");
+  }
+  for (const key of pinned) {
+    log.raw(`  ${formatHostKey(key)}`);
+  }
+  log.blank();
+
+  const { status, current } = await verifyHostKeys(getSSHOptions(config));
+
+  log.info(`Host key presented by ${config.vpsHost}:`);
+  for (const key of current) {
+    log.raw(`  ${formatHostKey(key)}`);
+  }
+  log.blank();
+
+  if (status === "match") {
+    log.ok("Presented host key matches the pinned host key");
+  } else if (status === "unpinned") {
+    log.warn("No host key pinned yet. Pin it with: bin/hostkey pin");
+  } else {
+    log.alert("Presented host key does NOT match the pinned host key");
+    log.raw(formatHostKeyDiff(pinned, current));
+    process.exit(1);
+  }
+}
+
+/**
+ * Pin the presented host key (trust on first use)
+ */
+async function pinHostKey(config: VPSConfig): Promise<void> {
+  const { status, pinned, current } = await verifyHostKeys(
+    getSSHOptions(config)
+  );
+
+  if (status === "match") {
+    log.ok(`Host key of ${config.vpsHost} is already pinned`);
+    return;
+  }
+
+  if (status === "changed") {
+    log.alert(`Host key of ${config.vpsHost} has changed!`);
+    log.raw(formatHostKeyDiff(pinned, current));
+    log.info("If this change is expected, re-pin it with: bin/hostkey repin");
+    process.exit(1);
+  }
+
+  await pinHostKeys(config.vpsHost, current);
+  for (const key of current) {
+    log.ok(`Pinned host key: ${formatHostKey(key)}`);
+  }
+}
+
+/**
+ * Replace the pinned host key with the presented one
+ */
+async function repinHostKey(config: VPSConfig, yes: boolean): Promise<void> {
+  const pinned = await getPinnedHostKeys(config.vpsHost);
+  const current = await scanHostKeys(getSSHOptions(config));
+
+  log.info(`Host key changes for ${config.vpsHost}:`);
+  log.raw(formatHostKeyDiff(pinned, current));
+
+  if (!yes && !confirm(`Pin the presented host key of ${config.vpsHost}?`)) {
+    log.warn("Aborted, pinned host key left unchanged");
+    process.exit(1);
+  }
+
+  await pinHostKeys(config.vpsHost, current);
+  log.ok(`Host key of ${config.vpsHost} re-pinned`);
+}
+
+/**
+ * Parse public key lines (e.g. output of cat /etc/ssh/ssh_host_*_key.pub)
+ */
+function parsePublicKeys(output: string): HostKey[] {
+  const keys: HostKey[] = [];
+  for (const line of output.split("\n")) {
+    const [type, key] = line.trim().split(/\s+/);
+    if (type?.startsWith("ssh-") || type?.startsWith("ecdsa-")) {
+      if (key) {
+        keys.push({ type, key, fingerprint: fingerprint(key) });
+      }
+    }
+  }
+  return keys;
+}
+
+/**
+ * Generate new host keys on the VPS and pin them
+ * The new keys are read over the current (verified) connection, so they
+ * can be trusted without a trust-on-first-use step
+ */
+async function rotateHostKey(config: VPSConfig, yes: boolean): Promise<void> {
+  const sshOptions = getSSHOptions(config);
+
+  if (
+    !yes &&
+    !confirm(`Generate new SSH host keys on ${config.vpsHost} and pin them?`)
+  ) {
+    log.warn("Aborted, host keys left unchanged");
+    process.exit(1);
+  }
+
+  log.info(`Generating new host keys on ${config.vpsHost}...`);
+  const generateResult = await sshExec(
+    `
+set -e
+dir=$(mktemp -d /tmp/vps-hostkeys.XXXXXX)
+ssh-keygen -q -t ed25519 -N "" -C "" -f "$dir/ssh_host_ed25519_key"
+ssh-keygen -q -t ecdsa -b 521 -N "" -C "" -f "$dir/ssh_host_ecdsa_key"
+ssh-keygen -q -t rsa -b 4096 -N "" -C "" -f "$dir/ssh_host_rsa_key"
+echo "DIR=$dir"
+cat "$dir"/*.pub
+`,
+    sshOptions
+  );
+
+  const dirMatch = generateResult.stdout.match(/^DIR=(\S+)$/m);
+  const newKeys = parsePublicKeys(generateResult.stdout);
+  if (!generateResult.success || !dirMatch?.[1] || newKeys.length === 0) {
+    log.error(`Failed to generate host keys: ${generateResult.stderr}`);
+    process.exit(1);
+  }
+  const keyDir = dirMatch[1];
+
+  log.info("Installing new host keys and restarting sshd...");
+  const installResult = await sshExec(
+    `
+set -e
+for key in "${keyDir}"/ssh_host_*_key; do
+  sudo install -o root -g root -m 600 "$key" /etc/ssh/
+  sudo install -o root -g root -m 644 "$key.pub" /etc/ssh/
+done
+rm -rf "${keyDir}"
+sudo systemctl restart ssh 2>/dev/null || sudo systemctl restart sshd
+`,
+    sshOptions
+  );
+
+  if (!installResult.success) {
+    log.error(`Failed to install host keys: ${installResult.stderr}`);
+    process.exit(1);
+  }
+
+  const pinned = await getPinnedHostKeys(config.vpsHost);
+  await pinHostKeys(config.vpsHost, newKeys);
+
+  log.raw(formatHostKeyDiff(pinned, newKeys));
+  log.ok(`Host keys of ${config.vpsHost} rotated and pinned`);
+}
+
+/**
+ * Main hostkey function
+ */
+async function hostkey(): Promise<void> {
+  const { hostName, args: hostArgs } = extractHostOption(process.argv.slice(2));
+  const yes = hostArgs.includes("--yes");
+  const args = hostArgs.filter((arg) => arg !== "--yes");
+
+  if (args.length === 0) {
+    usage();
+    return;
+  }
+
+  try {
+    const config = await loadAndValidateVPSConfig(
+      ["vpsHost", "vpsUser"],
+      hostName
+    );
+
+    const command = args[0];
+
+    switch (command) {
+      case "show":
+        await showHostKey(config);
+        break;
+
+      case "pin":
+        await pinHostKey(config);
+        break;
+
+      case "repin":
+        await repinHostKey(config, yes);
+        break;
+
+      case "rotate":
+        await rotateHostKey(config, yes);
+        break;
+
+      default:
+        log.error(`Unknown command: ${command}`);
+        usage();
+    }
+  } catch (error) {
+    log.error(
+      `Command failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    process.exit(1);
+  }
+}
+
+// Run hostkey command
+hostkey().catch((error) => {
+  log.error(
+    `Hostkey command failed: ${
+      error instanceof Error ? error.message : String(error)
+    }`
+  );
+  process.exit(1);
+});
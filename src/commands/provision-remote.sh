@@ -233,6 +233,7 @@ wait_for_apt
 apt-get install -y \
   ca-certificates \
   curl \
+  rsync \
   gnupg \
   lsb-release \
   software-properties-common \
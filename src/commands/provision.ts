@@ -1,23 +1,40 @@
 #!/usr/bin/env bun
-import { loadProvisionConfig } from "../lib/config.js";
+import { loadProvisionConfig, extractHostOption } from "../lib/config.js";
 import { log } from "../lib/logger.js";
+import { proxyJumpOptions, sshExec } from "../lib/ssh.js";
+import {
+  verifyHostKeys,
+  pinHostKeys,
+  hostKeyOptions,
+  formatHostKey,
+  formatHostKeyDiff,
+} from "../lib/hostkeys.js";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
 import { homedir } from "os";
 import { existsSync } from "fs";
 
+// Time the remote script needs to start rebooting after it exits
+const REBOOT_GRACE_MS = 10_000;
+
 /**
  * Main provisioning function
  */
 async function provision(): Promise<void> {
-  const config = await loadProvisionConfig();
+  const { hostName } = extractHostOption(process.argv.slice(2));
+  const config = await loadProvisionConfig(hostName);
 
   if (!config.vpsSshPubkey) {
-    log.error("VPS_SSH_PUBKEY is required. Set VPS_SSH_PUBKEY in .env file.");
+    log.error(
+      "VPS_SSH_PUBKEY is required. Set pubkey in bin/inventory.yml or VPS_SSH_PUBKEY in .env file."
+    );
     process.exit(1);
   }
 
   log.info(`Connecting to VPS: ${config.vpsHost}`);
+  if (config.vpsJump) {
+    log.info(`Jumping through: ${config.vpsJump.join(" -> ")}`);
+  }
   log.info("Executing provisioning script on VPS...");
 
   // Find provision-remote.sh script in the same directory
@@ -35,6 +52,28 @@ async function provision(): Promise<void> {
   // Read the remote script
   const remoteScript = await remoteScriptFile.text();
 
+  // Pin the host key on first provision, verify it on every later run
+  log.info("Verifying host key...");
+  const hostKeys = await verifyHostKeys({
+    host: config.vpsHost,
+    user: "root",
+    proxyJump: config.vpsJump,
+  });
+
+  if (hostKeys.status === "unpinned") {
+    await pinHostKeys(config.vpsHost, hostKeys.current);
+    for (const key of hostKeys.current) {
+      log.ok(`Pinned host key: ${formatHostKey(key)}`);
+    }
+  } else if (hostKeys.status === "changed") {
+    log.alert(`Host key of ${config.vpsHost} has changed!`);
+    log.raw(formatHostKeyDiff(hostKeys.pinned, hostKeys.current));
+    log.info("If this change is expected, re-pin it with: bin/hostkey repin");
+    process.exit(1);
+  } else {
+    log.ok("Host key matches pinned key");
+  }
+
   // Copy SSH key to root
   log.info("Copying SSH key to root...");
 
@@ -54,7 +93,14 @@ async function provision(): Promise<void> {
   }
 
   const sshCopyId = Bun.spawn(
-    ["ssh-copy-id", "-i", sshKeyPath, `root@${config.vpsHost}`],
+    [
+      "ssh-copy-id",
+      "-i",
+      sshKeyPath,
+      ...hostKeyOptions(config.vpsHost),
+      ...proxyJumpOptions(config.vpsJump),
+      `root@${config.vpsHost}`,
+    ],
     {
       stdout: "inherit",
       stderr: "inherit",
@@ -73,11 +119,20 @@ async function provision(): Promise<void> {
 
   log.info("Executing provisioning script on remote server...");
 
-  const ssh = Bun.spawn(["ssh", `root@${config.vpsHost}`, sshCommand], {
-    stdin: "pipe",
-    stdout: "inherit",
-    stderr: "inherit",
-  });
+  const ssh = Bun.spawn(
+    [
+      "ssh",
+      ...hostKeyOptions(config.vpsHost),
+      ...proxyJumpOptions(config.vpsJump),
+      `root@${config.vpsHost}`,
+      sshCommand,
+    ],
+    {
+      stdin: "pipe",
+      stdout: "inherit",
+      stderr: "inherit",
+    }
+  );
 
   ssh.stdin.write(remoteScript);
   ssh.stdin.end();
@@ -87,6 +142,33 @@ async function provision(): Promise<void> {
     log.error("Provisioning failed");
     process.exit(1);
   }
+
+  // The VPS reboots at the end of the script; wait until the new user can
+  // log in (connection failures are retried with backoff while it boots)
+  log.info("Waiting for the VPS to come back after the reboot...");
+  await Bun.sleep(REBOOT_GRACE_MS);
+
+  const result = await sshExec("true", {
+    host: config.vpsHost,
+    user: config.username,
+    proxyJump: config.vpsJump,
+    batchMode: true,
+    connectTimeout: 10,
+    multiplex: false,
+    quiet: true,
+    retry: { retries: 20, delay: 2000, factor: 1.5, maxDelay: 15_000 },
+  });
+
+  if (!result.success) {
+    log.error(
+      `VPS did not come back after the reboot: ${
+        result.error?.message ?? result.stderr
+      }`
+    );
+    process.exit(1);
+  }
+
+  log.ok(`VPS is up, log in with: ssh ${config.username}@${config.vpsHost}`);
 }
 
 // Run provisioning
@@ -0,0 +1,216 @@
+#!/usr/bin/env bun
+import { log } from "../lib/logger.js";
+import {
+  assertValidSecretName,
+  getSecret,
+  getSecretsVaultFile,
+  openSecretsVault,
+  promptHidden,
+  readSecretsVaultFile,
+  removeSecret,
+  saveSecretsVault,
+  setSecret,
+} from "../lib/secrets.js";
+import { generatePassword } from "../lib/templates/credentials.js";
+
+/**
+ * Print usage information
+ */
+function usage(): void {
+  log.raw(`Usage: bin/secrets <command> [arguments]
+
+Environment Variables:
+  VPS_SECRETS_PASSPHRASE   Passphrase of the vault (prompted when unset)
+  VPS_SECRETS_KEYFILE      Key file locking the vault instead of a
+                           passphrase, e.g. ~/.ssh/id_ed25519
+  VPS_SECRETS_FILE         Path of the vault file
+
+Commands:
+  list                     List the secrets of the vault
+  get <name>               Print the value of a secret
+  set <name> [value]       Set a secret (the value is prompted for or read
+                           from stdin when it's not given)
+  set <name> --generate    Set a secret to a strong random value
+  rotate <name>            Replace a secret with a new random value
+  remove <name>            Remove a secret from the vault
+
+The vault is stored encrypted in: ${getSecretsVaultFile()}
+Compose services use secrets by name, see bin/compose up.
+
+Examples:
+  bin/secrets set myapp.api.token
+  bin/secrets set myapp.api.token --generate
+  bin/secrets get myapp.db.root_password
+  bin/secrets rotate myapp.api.token
+  echo -n "value" | bin/secrets set myapp.api.token`);
+  process.exit(1);
+}
+
+/**
+ * List the secrets of the vault (doesn't need to unlock it)
+ */
+function listSecrets(): void {
+  const file = readSecretsVaultFile();
+  const names = Object.keys(file?.secrets ?? {}).sort();
+
+  if (!file || names.length === 0) {
+    log.info("No secrets in the vault yet");
+    return;
+  }
+
+  log.table(
+    ["NAME", "UPDATED"],
+    names.map((name) => [name, file.secrets[name]?.updated ?? ""])
+  );
+}
+
+/**
+ * Print the value of a secret
+ */
+function getSecretValue(name: string): void {
+  const value = getSecret(openSecretsVault(), name);
+  if (value === undefined) {
+    log.error(`Secret '${name}' not found`);
+    process.exit(1);
+  }
+  log.raw(value);
+}
+
+/**
+ * Set a secret to a given, prompted, piped or generated value
+ */
+async function setSecretValue(
+  name: string,
+  value: string | undefined,
+  generate: boolean
+): Promise<void> {
+  assertValidSecretName(name);
+
+  if (generate) {
+    value = generatePassword();
+  } else if (value === undefined) {
+    value = process.stdin.isTTY
+      ? promptHidden(`Value of ${name}:`)
+      : (await Bun.stdin.text()).replace(/\r?\n$/, "");
+  }
+  if (!value) {
+    log.error("The value must not be empty");
+    process.exit(1);
+  }
+
+  const vault = openSecretsVault();
+  const existed = getSecret(vault, name) !== undefined;
+  setSecret(vault, name, value);
+  await saveSecretsVault(vault);
+
+  log.ok(`Secret '${name}' ${existed ? "updated" : "added"}`);
+  if (existed) {
+    log.info(
+      "Projects using it get the new value with: bin/compose up <project>"
+    );
+  }
+}
+
+/**
+ * Replace a secret with a new random value
+ */
+async function rotateSecret(name: string): Promise<void> {
+  const vault = openSecretsVault();
+  if (getSecret(vault, name) === undefined) {
+    log.error(`Secret '${name}' not found`);
+    process.exit(1);
+  }
+
+  setSecret(vault, name, generatePassword());
+  await saveSecretsVault(vault);
+
+  log.ok(`Secret '${name}' rotated`);
+  log.info(
+    "Projects using it get the new value with: bin/compose up <project>"
+  );
+  // Database images only read their password files when they initialize
+  log.warn(
+    "Passwords stored by a service itself (e.g. of a database) must be " +
+      "changed there as well"
+  );
+}
+
+/**
+ * Remove a secret from the vault
+ */
+async function removeSecretValue(name: string): Promise<void> {
+  const vault = openSecretsVault();
+  if (!removeSecret(vault, name)) {
+    log.error(`Secret '${name}' not found`);
+    process.exit(1);
+  }
+  await saveSecretsVault(vault);
+  log.ok(`Secret '${name}' removed`);
+}
+
+/**
+ * Main secrets function
+ */
+async function secrets(): Promise<void> {
+  const args = process.argv.slice(2);
+  const generate = args.includes("--generate");
+  const positional = args.filter((arg) => arg !== "--generate");
+
+  if (positional.length === 0) {
+    usage();
+    return;
+  }
+
+  const command = positional[0];
+  const name = positional[1] ?? "";
+
+  try {
+    if (command !== "list" && !name) {
+      log.error("Secret name required");
+      usage();
+    }
+
+    switch (command) {
+      case "list":
+        listSecrets();
+        break;
+
+      case "get":
+        getSecretValue(name);
+        break;
+
+      case "set":
+        await setSecretValue(name, positional[2], generate);
+        break;
+
+      case "rotate":
+        await rotateSecret(name);
+        break;
+
+      case "remove":
+        await removeSecretValue(name);
+        break;
+
+      default:
+        log.error(`Unknown command: ${command}`);
+        usage();
+    }
+  } catch (error) {
+    log.error(
+      `Command failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    process.exit(1);
+  }
+}
+
+// Run secrets command
+secrets().catch((error) => {
+  log.error(
+    `Secrets command failed: ${
+      error instanceof Error ? error.message : String(error)
+    }`
+  );
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { probeFail2Ban } from "./audit.js";
+import { setTransport } from "./ssh.js";
+import { createLocalTransport } from "./transport.js";
+import type { SSHOptions } from "./types.js";
+
+const options: SSHOptions = { host: "vps", user: "deploy", retry: false };
+
+describe("probeFail2Ban", () => {
+  let root: string;
+  const path = process.env.PATH;
+
+  /**
+   * Put a fake command in front of the PATH of remote commands
+   */
+  function fakeCommand(name: string, script: string): void {
+    const file = join(root, "bin", name);
+    writeFileSync(file, `#!/bin/sh\n${script}\n`);
+    chmodSync(file, 0o755);
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "vps-test-"));
+    mkdirSync(join(root, "bin"));
+    process.env.PATH = `${join(root, "bin")}:${path}`;
+    setTransport(createLocalTransport(root));
+  });
+
+  afterEach(() => {
+    process.env.PATH = path;
+    setTransport(null);
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("reports an inactive service as not running", async () => {
+    // systemctl is-active exits with 3 for an inactive unit
+    fakeCommand("systemctl", "echo inactive; exit 3");
+    expect(await probeFail2Ban(options)).toEqual({ active: false });
+  });
+
+  test("reports the sshd jail of a running service", async () => {
+    fakeCommand("systemctl", "exit 0");
+    fakeCommand(
+      "sudo",
+      `printf 'Status for the jail: sshd\\n|- Currently failed:\\t\\033[1m0\\033[0m\\n'`
+    );
+    expect(await probeFail2Ban(options)).toEqual({
+      active: true,
+      jailConfigured: true,
+      jailStatus:
+        "Status for the jail: sshd\n|- Currently failed:\t\u001b[1m0\u001b[0m",
+    });
+  });
+
+  test("reports a missing sshd jail", async () => {
+    fakeCommand("systemctl", "exit 0");
+    fakeCommand("sudo", "exit 255");
+    expect(await probeFail2Ban(options)).toEqual({
+      active: true,
+      jailConfigured: false,
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { runRemoteProbe } from "./script.js";
+import type { SSHOptions } from "./types.js";
+
+/**
+ * Fail2Ban probe result
+ */
+export interface Fail2BanProbe {
+  active: boolean;
+  jailConfigured: boolean;
+  jailStatus: string;
+}
+
+// Booleans are emitted as JSON, so "inactive" can't be read as "active"
+const FAIL2BAN_SCRIPT = `
+if systemctl is-active --quiet fail2ban 2>/dev/null; then
+  emit_json '{"active": true}'
+  if JAIL=$(sudo fail2ban-client status sshd 2>/dev/null); then
+    emit_json '{"jailConfigured": true}'
+    emit jailStatus "$JAIL"
+  else
+    emit_json '{"jailConfigured": false}'
+  fi
+else
+  emit_json '{"active": false}'
+fi
+`;
+
+/**
+ * Check whether Fail2Ban runs and has an sshd jail
+ */
+export async function probeFail2Ban(
+  options: SSHOptions
+): Promise<Partial<Fail2BanProbe>> {
+  return runRemoteProbe<Fail2BanProbe>(FAIL2BAN_SCRIPT, options);
+}
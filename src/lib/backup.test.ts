@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  chmodSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setBackupSchedule } from "./backup.js";
+import { setTransport } from "./ssh.js";
+import { createLocalTransport } from "./transport.js";
+import type { VPSConfig } from "./types.js";
+
+const config: VPSConfig = { vpsHost: "vps", vpsUser: "deploy" };
+
+describe("setBackupSchedule", () => {
+  let root: string;
+  const path = process.env.PATH;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "vps-test-"));
+    mkdirSync(join(root, "bin"));
+    // Keeps the crontab in a file of the remote HOME
+    const crontab = join(root, "bin", "crontab");
+    writeFileSync(
+      crontab,
+      `#!/bin/sh
+if [ "$1" = "-l" ]; then cat "$HOME/crontab"; exit; fi
+cat > "$HOME/crontab.new" && mv "$HOME/crontab.new" "$HOME/crontab"
+`
+    );
+    chmodSync(crontab, 0o755);
+    writeFileSync(join(root, "crontab"), "0 * * * * date\n");
+    process.env.PATH = `${join(root, "bin")}:${path}`;
+    setTransport(createLocalTransport(root));
+  });
+
+  afterEach(() => {
+    process.env.PATH = path;
+    setTransport(null);
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  /**
+   * Get the backup scripts run by the crontab
+   */
+  function scheduledScripts(): string[] {
+    return readFileSync(join(root, "crontab"), "utf8")
+      .split("\n")
+      .filter((line) => line.includes("# vps.js backup"))
+      .map((line) => line.split(" ")[5] ?? "");
+  }
+
+  test("replaces and removes the entry of one service only", async () => {
+    const projectDir = join(root, "app");
+    for (const alias of ["db", "db2", "db.old"]) {
+      expect(
+        await setBackupSchedule("app", projectDir, alias, "0 3 * * *", config)
+      ).toBe(true);
+    }
+    expect(
+      await setBackupSchedule(
+        "app2",
+        `${projectDir}2`,
+        "db",
+        "0 3 * * *",
+        config
+      )
+    ).toBe(true);
+
+    expect(
+      await setBackupSchedule("app", projectDir, "db", "30 2 * * *", config)
+    ).toBe(true);
+    expect(
+      await setBackupSchedule("app", projectDir, "db2", null, config)
+    ).toBe(true);
+
+    const crontab = readFileSync(join(root, "crontab"), "utf8");
+    expect(crontab).toStartWith("0 * * * * date\n");
+    expect(crontab).toContain("30 2 * * * ");
+    expect(scheduledScripts()).toEqual([
+      expect.stringContaining("/app/backups/db.old/"),
+      expect.stringContaining("/app2/backups/db/"),
+      expect.stringContaining("/app/backups/db/"),
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import { sshExec, shellCommand, shellQuote } from "./ssh.js";
+import { getSSHOptions } from "./config.js";
+import type { DockerComposeService, VPSConfig } from "./types.js";
+
+// Number of backups kept per service unless --keep is given
+export const DEFAULT_BACKUP_KEEP = 7;
+
+// Shortcuts for --schedule (cron expressions, times are the VPS's)
+const SCHEDULE_PRESETS: Record<string, string> = {
+  hourly: "0 * * * *",
+  daily: "0 3 * * *",
+  weekly: "0 3 * * 0",
+};
+
+// Image of the throwaway container that reads and writes volumes
+const VOLUME_HELPER_IMAGE = "alpine:3";
+
+// Reads the root password inside the container (plain or *_FILE variable)
+const MYSQL_ROOT_PASSWORD =
+  '"${MYSQL_ROOT_PASSWORD:-$(cat "${MYSQL_ROOT_PASSWORD_FILE:-/dev/null}")}"';
+
+/**
+ * Check whether a service runs MySQL (or MariaDB)
+ */
+export function isMysqlService(service: DockerComposeService): boolean {
+  return /^(?:[^/]+\/)*(?:mysql|mariadb)(?::|@|$)/.test(service.image ?? "");
+}
+
+/**
+ * Get the directory the backups of a service are stored in on the VPS
+ */
+export function getBackupDir(projectDir: string, alias: string): string {
+  return `${projectDir}/backups/${alias}`;
+}
+
+/**
+ * Get the path of the generated backup script of a service
+ */
+export function getBackupScriptPath(projectDir: string, alias: string): string {
+  return `${getBackupDir(projectDir, alias)}/backup.sh`;
+}
+
+/**
+ * Render the backup script of a mysql service
+ * The script dumps all databases inside the container, compresses the dump
+ * and deletes all but the newest `keep` backups; it's run by compose backup
+ * and by the cron entry of scheduled backups alike
+ */
+export function renderMysqlBackupScript(
+  projectName: string,
+  projectDir: string,
+  alias: string,
+  keep: number
+): string {
+  const dumpCommand = shellQuote(
+    `MYSQL_PWD=${MYSQL_ROOT_PASSWORD} exec mysqldump -uroot --all-databases ` +
+      `--single-transaction --routines --triggers --events`
+  );
+  const firstExpired = keep + 1;
+
+  return `#!/bin/sh
+# Generated by vps.js: backup of mysql service '${alias}' of project '${projectName}'
+set -eu
+
+cd ${shellQuote(projectDir)}
+dir=${shellQuote(getBackupDir(projectDir, alias))}
+mkdir -p "$dir"
+
+file="$dir/${alias}-$(date -u +%Y%m%dT%H%M%SZ).sql.gz"
+partial="$file.partial"
+
+# Exit code of the dump (the pipeline only reports the one of gzip)
+status=$( { { set +e; docker compose exec -T ${alias} sh -c ${dumpCommand}; echo $? >&3; } | gzip > "$partial"; } 3>&1 )
+
+if [ "$status" != 0 ]; then
+  rm -f "$partial"
+  echo "mysqldump failed with exit code $status" >&2
+  exit 1
+fi
+chmod 600 "$partial"
+mv "$partial" "$file"
+
+# Keep the newest ${keep} backups
+ls -1 "$dir"/${alias}-*.sql.gz | sort -r | tail -n +${firstExpired} | while read -r old; do
+  rm -f "$old"
+done
+
+echo "BACKUP=$file"
+`;
+}
+
+/**
+ * Build the command restoring a dump (.sql or .sql.gz) into a mysql service
+ */
+export function mysqlRestoreCommand(
+  projectDir: string,
+  alias: string,
+  file: string
+): string {
+  const reader = file.endsWith(".gz") ? "gunzip -c" : "cat";
+  return (
+    `cd ${shellQuote(projectDir)} && ${reader} ${shellQuote(file)} | ` +
+    `docker compose exec -T ${alias} sh -c ${shellQuote(
+      `MYSQL_PWD=${MYSQL_ROOT_PASSWORD} exec mysql -uroot`
+    )}`
+  );
+}
+
+/**
+ * Resolve a --schedule value (preset or cron expression) to a cron schedule
+ */
+export function resolveSchedule(schedule: string): string {
+  const cron = SCHEDULE_PRESETS[schedule] ?? schedule.trim();
+  if (!/^\S+( \S+){4}$/.test(cron) || /[^\d*/,\- a-zA-Z]/.test(cron)) {
+    throw new Error(
+      `Invalid schedule '${schedule}': use ${Object.keys(SCHEDULE_PRESETS).join(
+        ", "
+      )} or a cron expression such as "30 2 * * *"`
+    );
+  }
+  return cron;
+}
+
+/**
+ * Marker identifying the cron entry of a service's backups (at its end)
+ */
+function cronMarker(projectName: string, alias: string): string {
+  return `# vps.js backup ${projectName}/${alias}`;
+}
+
+/**
+ * Build the grep pattern matching the cron entry of a service's backups, and
+ * not those of services whose names start with the same characters
+ */
+function cronMarkerPattern(projectName: string, alias: string): string {
+  const marker = cronMarker(projectName, alias).replace(/[.*[\]^$\\]/g, "\\$&");
+  return ` ${marker}$`;
+}
+
+/**
+ * Install (or replace) the cron entry running a backup script
+ * Pass null as schedule to remove the entry; returns whether it succeeded
+ */
+export async function setBackupSchedule(
+  projectName: string,
+  projectDir: string,
+  alias: string,
+  schedule: string | null,
+  config: VPSConfig
+): Promise<boolean> {
+  const marker = cronMarker(projectName, alias);
+  const script = getBackupScriptPath(projectDir, alias);
+  const entry =
+    schedule === null
+      ? ""
+      : `echo ${shellQuote(
+          `${schedule} ${shellQuote(script)} >> ${shellQuote(
+            `${getBackupDir(projectDir, alias)}/backup.log`
+          )} 2>&1 ${marker}`
+        )};`;
+
+  const result = await sshExec(
+    `{ crontab -l 2>/dev/null | ${shellCommand([
+      "grep",
+      "-v",
+      "--",
+      cronMarkerPattern(projectName, alias),
+    ])}; ${entry} } | crontab -`,
+    getSSHOptions(config, { agentForward: true })
+  );
+  return result.success;
+}
+
+/**
+ * Build the command writing the contents of a volume to stdout (tar.gz)
+ * The volume is mounted read-only into a throwaway container
+ */
+export function volumeBackupCommand(volumeName: string): string {
+  return shellCommand([
+    "docker",
+    "run",
+    "--rm",
+    "-v",
+    `${volumeName}:/volume:ro`,
+    VOLUME_HELPER_IMAGE,
+    "tar",
+    "-czf",
+    "-",
+    "--numeric-owner",
+    "-C",
+    "/volume",
+    ".",
+  ]);
+}
+
+/**
+ * Build the command replacing the contents of a volume with a tar.gz
+ * archive read from stdin
+ */
+export function volumeRestoreCommand(volumeName: string): string {
+  return shellCommand([
+    "docker",
+    "run",
+    "--rm",
+    "-i",
+    "-v",
+    `${volumeName}:/volume`,
+    VOLUME_HELPER_IMAGE,
+    "sh",
+    "-c",
+    "find /volume -mindepth 1 -delete && " +
+      "tar -xzf - --numeric-owner -C /volume",
+  ]);
+}
@@ -0,0 +1,350 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { execFileSync } from "child_process";
+import {
+  chmodSync,
+  chownSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  addComposeSecret,
+  addComposeVolume,
+  addServiceEnvFile,
+  createComposeDocument,
+  destroyComposeProject,
+  findOrphanedVolumes,
+  parseComposeDocument,
+  parseComposePs,
+  removeComposeService,
+  removeComposeVolume,
+  removeServiceEnvironment,
+  serializeComposeDocument,
+  serializeComposeForHash,
+  setComposeService,
+} from "./compose.js";
+import { setTransport } from "./ssh.js";
+import { createLocalTransport } from "./transport.js";
+import type { VPSConfig } from "./types.js";
+
+const COMPOSE_FILE = `# Demo project
+services:
+  db:
+    image: "mysql:8.0" # pinned
+    environment:
+      MYSQL_DATABASE: "app"
+      MYSQL_USER: "app"
+    volumes:
+      - "db_data:/var/lib/mysql"
+
+  app:
+    image: "oven/bun:1"
+    volumes:
+      - "./app:/app"
+      - "db_data:/backup:ro"
+      - "cache:/cache"
+
+networks:
+  default:
+    name: "demo_network"
+
+volumes:
+  db_data:
+  cache:
+`;
+
+describe("compose documents", () => {
+  test("parse and serialize without changes", () => {
+    expect(serializeComposeDocument(parseComposeDocument(COMPOSE_FILE))).toBe(
+      COMPOSE_FILE
+    );
+  });
+
+  test("keep comments after keys in place", () => {
+    const content = `services:
+  app: # main app
+    # pinned below
+    image: "oven/bun:1" # runtime
+    ports: # public
+      - "3000:3000"
+
+volumes: # named volumes
+  data:
+`;
+    const doc = parseComposeDocument(content);
+    expect(serializeComposeDocument(doc)).toBe(content);
+
+    addComposeVolume(doc, "cache");
+    expect(serializeComposeDocument(doc)).toBe(`${content}  cache:\n`);
+  });
+
+  test("create the document of a new project", () => {
+    expect(serializeComposeDocument(createComposeDocument("demo"))).toBe(
+      `services: {}
+
+networks:
+  default:
+    name: "demo_network"
+`
+    );
+  });
+
+  test("add a service, its volume and secret in the generated style", () => {
+    const doc = parseComposeDocument(COMPOSE_FILE);
+    setComposeService(doc, "cache", {
+      image: "redis:7-alpine",
+      command: ["redis-server", "--appendonly", "yes"],
+      volumes: ["cache_data:/data"],
+    });
+    addComposeVolume(doc, "cache_data");
+    addComposeSecret(doc, "demo.cache.password", "/srv/secrets/password");
+
+    expect(serializeComposeDocument(doc)).toBe(
+      COMPOSE_FILE.replace(
+        "\nnetworks:",
+        `
+  cache:
+    image: "redis:7-alpine"
+    command: ["redis-server", "--appendonly", "yes"]
+    volumes:
+      - "cache_data:/data"
+
+networks:`
+      ) +
+        `  cache_data:
+
+secrets:
+  demo.cache.password:
+    file: "/srv/secrets/password"
+`
+    );
+  });
+
+  test("write line breaks of strings as escapes", () => {
+    const doc = createComposeDocument("demo");
+    setComposeService(doc, "cache", {
+      command: ["sh", "-c", "cat <<EOF\nport 6379\nEOF"],
+    });
+
+    expect(serializeComposeDocument(doc)).toContain(
+      `    command: ["sh", "-c", "cat <<EOF\\nport 6379\\nEOF"]\n`
+    );
+  });
+
+  test("remove a service and its orphaned volumes", () => {
+    const doc = parseComposeDocument(COMPOSE_FILE);
+    expect(findOrphanedVolumes(doc, "app")).toEqual(["cache"]);
+    expect(findOrphanedVolumes(doc, "db")).toEqual([]);
+
+    removeComposeService(doc, "db");
+    expect(findOrphanedVolumes(doc, "app")).toEqual(["db_data", "cache"]);
+    removeComposeVolume(doc, "db_data");
+    removeComposeVolume(doc, "cache");
+
+    expect(serializeComposeDocument(doc)).toBe(`# Demo project
+services:
+  app:
+    image: "oven/bun:1"
+    volumes:
+      - "./app:/app"
+      - "db_data:/backup:ro"
+      - "cache:/cache"
+
+networks:
+  default:
+    name: "demo_network"
+`);
+  });
+
+  test("move variables to an env file", () => {
+    const doc = parseComposeDocument(COMPOSE_FILE);
+    expect(removeServiceEnvironment(doc, "db", "MYSQL_USER")).toBe(true);
+    expect(removeServiceEnvironment(doc, "db", "MYSQL_USER")).toBe(false);
+    expect(addServiceEnvFile(doc, "db", "/srv/env/db.env")).toBe(true);
+    expect(addServiceEnvFile(doc, "db", "/srv/env/db.env")).toBe(false);
+    removeServiceEnvironment(doc, "db", "MYSQL_DATABASE");
+
+    expect(serializeComposeDocument(doc)).toContain(
+      `  db:
+    image: "mysql:8.0" # pinned
+    env_file:
+      - "/srv/env/db.env"
+    volumes:
+`
+    );
+  });
+});
+
+describe("serializeComposeForHash", () => {
+  test("marks env files optional without changing the document", () => {
+    const doc = parseComposeDocument(COMPOSE_FILE);
+    addServiceEnvFile(doc, "db", "/srv/env/db.env");
+    const content = serializeComposeDocument(doc);
+
+    expect(serializeComposeForHash(doc)).toContain(
+      `    env_file:
+      - path: "/srv/env/db.env"
+        required: false
+`
+    );
+    expect(serializeComposeDocument(doc)).toBe(content);
+  });
+});
+
+describe("destroyComposeProject", () => {
+  const config: VPSConfig = { vpsHost: "vps", vpsUser: "deploy" };
+  const path = process.env.PATH;
+  let root: string;
+
+  /**
+   * Put a fake command in front of the PATH of remote commands
+   */
+  function fakeCommand(name: string, script: string): void {
+    const file = join(root, "bin", name);
+    writeFileSync(file, `#!/bin/sh\n${script}\n`);
+    chmodSync(file, 0o755);
+  }
+
+  /**
+   * Create a project whose secret belongs to a container user
+   */
+  function createProject(name: string): void {
+    mkdirSync(join(root, name, "secrets"), { recursive: true });
+    writeFileSync(join(root, name, "docker-compose.yml"), COMPOSE_FILE);
+    const secret = join(root, name, "secrets", `${name}.db.password`);
+    writeFileSync(secret, "s3cret");
+    chmodSync(secret, 0o400);
+    if (process.getuid?.() === 0) {
+      chownSync(secret, 999, 999);
+    }
+  }
+
+  // The compose home is cached, so all tests share one remote HOME
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), "vps-test-"));
+    mkdirSync(join(root, "bin"));
+    process.env.PATH = `${join(root, "bin")}:${path}`;
+    setTransport(createLocalTransport(root));
+    // Lists the archives when the project is taken down
+    fakeCommand(
+      "docker",
+      `echo "$*" >> ../docker.log; ls ../.archive >> ../docker.log`
+    );
+  });
+
+  afterAll(() => {
+    process.env.PATH = path;
+    setTransport(null);
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("archives the project without its secrets before removing it", async () => {
+    createProject("demo");
+
+    const archiveFile = await destroyComposeProject("demo", config);
+
+    const [archive] = readdirSync(join(root, ".archive"));
+    expect(archiveFile).toBe(join(root, ".archive", archive ?? ""));
+    expect(readFileSync(join(root, "docker.log"), "utf8")).toBe(
+      `compose down --volumes --remove-orphans\n${archive}\n`
+    );
+    expect(existsSync(join(root, "demo"))).toBe(false);
+    expect(
+      execFileSync("tar", ["-tzf", archiveFile], { encoding: "utf8" })
+        .split("\n")
+        .filter(Boolean)
+        .sort()
+    ).toEqual(["demo/", "demo/docker-compose.yml"]);
+  });
+
+  test("leaves the project unchanged when archiving fails", async () => {
+    createProject("broken");
+    rmSync(join(root, "docker.log"), { force: true });
+    fakeCommand("tar", "echo 'tar: cannot read' >&2; exit 2");
+
+    await expect(destroyComposeProject("broken", config)).rejects.toThrow(
+      "the project was left unchanged"
+    );
+    expect(existsSync(join(root, "docker.log"))).toBe(false);
+    expect(existsSync(join(root, "broken", "docker-compose.yml"))).toBe(true);
+  });
+});
+
+describe("parseComposePs", () => {
+  const entry = {
+    Name: "demo-db-1",
+    Service: "db",
+    Image: "mysql:8.0",
+    State: "running",
+    Health: "healthy",
+    Status: "Up 2 hours (healthy)",
+    Publishers: [
+      {
+        URL: "127.0.0.1",
+        TargetPort: 3306,
+        PublishedPort: 3306,
+        Protocol: "tcp",
+      },
+      { URL: "0.0.0.0", TargetPort: 33060, PublishedPort: 0, Protocol: "tcp" },
+    ],
+  };
+
+  test("parses one object per line and JSON arrays", () => {
+    const expected = [
+      {
+        service: "db",
+        container: "demo-db-1",
+        image: "mysql:8.0",
+        state: "running",
+        health: "healthy",
+        status: "Up 2 hours (healthy)",
+        uptime: "2 hours",
+        exitCode: 0,
+        ports: ["127.0.0.1:3306->3306/tcp"],
+      },
+    ];
+    expect(parseComposePs(`${JSON.stringify(entry)}\n`)).toEqual(expected);
+    expect(parseComposePs(JSON.stringify([entry]))).toEqual(expected);
+  });
+
+  test("lists ports published on all addresses once", () => {
+    const [status] = parseComposePs(
+      JSON.stringify({
+        ...entry,
+        Publishers: [
+          {
+            URL: "0.0.0.0",
+            TargetPort: 80,
+            PublishedPort: 80,
+            Protocol: "tcp",
+          },
+          { URL: "::", TargetPort: 80, PublishedPort: 80, Protocol: "tcp" },
+        ],
+      })
+    );
+    expect(status?.ports).toEqual(["80->80/tcp"]);
+  });
+
+  test("keeps the exit code of stopped containers", () => {
+    const [status] = parseComposePs(
+      JSON.stringify({
+        Name: "demo-migrate-1",
+        Service: "migrate",
+        State: "exited",
+        Status: "Exited (1) 3 minutes ago",
+        ExitCode: 1,
+      })
+    );
+    expect(status).toMatchObject({ state: "exited", exitCode: 1, uptime: "" });
+  });
+
+  test("returns nothing for empty output", () => {
+    expect(parseComposePs("")).toEqual([]);
+  });
+});
@@ -1,22 +1,974 @@
-import { sshExecStdout, filterMOTDFromOutput } from "./ssh.js";
+import {
+  sshExec,
+  sshExecQuiet,
+  sshExecStdout,
+  sshExecStream,
+  shellCommand,
+  shellCommandIn,
+  shellQuote,
+  uploadContent,
+  downloadContent,
+  filterMOTDFromOutput,
+} from "./ssh.js";
+import { getSSHOptions } from "./config.js";
+import { runRemoteScript } from "./script.js";
+import type {
+  ComposeContainerStatus,
+  ComposeProjectSummary,
+  DockerComposeConfig,
+  DockerComposeService,
+  VPSConfig,
+} from "./types.js";
+import {
+  Document,
+  Pair,
+  Scalar,
+  YAMLMap,
+  isMap,
+  isScalar,
+  isSeq,
+  parseDocument,
+  visit,
+  type Node,
+} from "yaml";
 
 // Cache for remote HOME directory
 let composeHomeCache: string | null = null;
 
+// Allowed project names and service aliases (also valid for docker compose)
+const NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]{0,62}$/;
+
+/**
+ * Validate a project name or service alias before it is used remotely
+ */
+export function assertValidName(value: string, label: string): void {
+  if (!NAME_PATTERN.test(value)) {
+    throw new Error(
+      `Invalid ${label} '${value}': use up to 63 letters, digits, '.', '_' ` +
+        `or '-', starting with a letter or digit`
+    );
+  }
+}
+
 /**
  * Get remote HOME directory (cached after first call)
  */
-export async function getComposeHome(config: {
-  vpsHost: string;
-  vpsUser: string;
-}): Promise<string> {
+export async function getComposeHome(config: VPSConfig): Promise<string> {
   if (!composeHomeCache) {
-    const result = await sshExecStdout("echo $HOME", {
-      host: config.vpsHost,
-      user: config.vpsUser,
-      agentForward: true,
-    });
+    const result = await sshExecStdout(
+      "echo $HOME",
+      getSSHOptions(config, { agentForward: true })
+    );
     composeHomeCache = filterMOTDFromOutput(result);
   }
   return composeHomeCache;
 }
+
+// Formatting of written compose files (existing nodes keep their style)
+const STRINGIFY_OPTIONS = {
+  indent: 2,
+  lineWidth: 0,
+  nullStr: "",
+  flowCollectionPadding: false,
+  // Line breaks in strings as "\n", e.g. in scripts of commands
+  doubleQuotedMinMultiLineLength: Infinity,
+};
+
+// Sequences written inline, e.g. command: ["bun", "run", "src/index.ts"]
+const FLOW_SEQUENCE_KEYS = new Set(["command", "entrypoint", "test"]);
+
+/**
+ * Get the path of a project's compose file
+ */
+export function getComposeFilePath(projectDir: string): string {
+  return `${projectDir}/docker-compose.yml`;
+}
+
+/**
+ * Create a YAML node in the style of generated compose files
+ * String values are double quoted and commands are flow sequences
+ */
+function createComposeNode(doc: Document, value: unknown): Node {
+  const node = doc.createNode(value) as Node;
+
+  visit(node, {
+    Pair: (_, pair) => {
+      const key = isScalar(pair.key) ? pair.key.value : undefined;
+      if (isSeq(pair.value) && FLOW_SEQUENCE_KEYS.has(String(key))) {
+        pair.value.flow = true;
+      }
+    },
+    Scalar: (key, scalar) => {
+      if (key !== "key" && typeof scalar.value === "string") {
+        scalar.type = Scalar.QUOTE_DOUBLE;
+      }
+    },
+  });
+
+  return node;
+}
+
+/**
+ * Find the pair of a key in a mapping
+ */
+function findPair(map: YAMLMap, key: string): Pair | undefined {
+  return map.items.find(
+    (item): item is Pair => isScalar(item.key) && item.key.value === key
+  );
+}
+
+/**
+ * Get a top-level mapping of the document, creating it when missing
+ * New sections are separated from the previous one by a blank line
+ */
+function getSection(doc: Document, name: string): YAMLMap {
+  const root = doc.contents as YAMLMap;
+  const map = new YAMLMap();
+
+  const existing = findPair(root, name);
+  if (existing) {
+    // e.g. "volumes:" without any entries
+    if (isMap(existing.value)) {
+      // An empty "{}" section becomes a block mapping once it gets entries
+      if (existing.value.items.length === 0) {
+        existing.value.flow = false;
+      }
+      return existing.value;
+    }
+    existing.value = map;
+    return map;
+  }
+
+  const pair = doc.createPair(name, map);
+  if (root.items.length > 0 && isScalar(pair.key)) {
+    pair.key.spaceBefore = true;
+  }
+  root.items.push(pair);
+  return map;
+}
+
+/**
+ * Create the compose document of a new project
+ */
+export function createComposeDocument(projectName: string): Document {
+  const doc = new Document(new YAMLMap());
+  getSection(doc, "services");
+  ensureComposeNetwork(doc, projectName);
+  return doc;
+}
+
+/**
+ * Parse a compose file into a YAML document (keeps comments and formatting)
+ */
+export function parseComposeDocument(content: string): Document {
+  const doc: Document = parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new Error(
+      `Failed to parse docker-compose.yml: ${doc.errors[0]?.message}`
+    );
+  }
+  if (doc.contents !== null && !isMap(doc.contents)) {
+    throw new Error("Invalid docker-compose.yml structure");
+  }
+  if (doc.contents === null) {
+    doc.contents = new YAMLMap();
+  }
+
+  // A comment after a key with a nested mapping or list (e.g. "app: # main")
+  // is attached to the value as a comment before it, which would move it to
+  // its own line; put it back on the key
+  visit(doc, {
+    Pair: (_, pair) => {
+      const value = pair.value;
+      if (
+        !isScalar(pair.key) ||
+        !pair.key.range ||
+        !(isMap(value) || isSeq(value)) ||
+        !value.commentBefore
+      ) {
+        return;
+      }
+
+      const end = pair.key.range[1];
+      const lineEnd = content.indexOf("\n", end);
+      const comment = content
+        .slice(end, lineEnd === -1 ? undefined : lineEnd)
+        .match(/^\s*:\s*#(.*)$/)?.[1];
+      if (comment !== undefined) {
+        pair.key.comment = comment;
+        const rest = value.commentBefore.split("\n").slice(1);
+        value.commentBefore = rest.length > 0 ? rest.join("\n") : undefined;
+      }
+    },
+  });
+
+  // A blank line after a section ending in an empty value (e.g. "  db_data:")
+  // is attached to that value; move it to the next section, so it stays
+  // there when entries are appended to the section
+  const sections = (doc.contents as YAMLMap).items;
+  sections.forEach((section, i) => {
+    const last = isMap(section.value) ? section.value.items.at(-1) : undefined;
+    const next = sections[i + 1];
+    if (
+      isScalar(last?.value) &&
+      last.value.spaceBefore &&
+      isScalar(next?.key)
+    ) {
+      last.value.spaceBefore = false;
+      next.key.spaceBefore = true;
+    }
+  });
+  return doc;
+}
+
+/**
+ * Serialize a compose document
+ */
+export function serializeComposeDocument(doc: Document): string {
+  return doc.toString(STRINGIFY_OPTIONS);
+}
+
+/**
+ * Serialize a compose document for docker compose config --hash
+ * Env files are marked optional, as a pending change may reference an env
+ * file that is only written once the change is applied
+ */
+export function serializeComposeForHash(doc: Document): string {
+  const copy = doc.clone();
+  const services = getComposeConfig(copy).services ?? {};
+  for (const [alias, service] of Object.entries(services)) {
+    if (service?.env_file === undefined) {
+      continue;
+    }
+    const entries: unknown[] = Array.isArray(service.env_file)
+      ? service.env_file
+      : [service.env_file];
+    copy.setIn(
+      ["services", alias, "env_file"],
+      createComposeNode(
+        copy,
+        entries.map((entry) =>
+          typeof entry === "object" && entry !== null
+            ? { ...entry, required: false }
+            : { path: entry, required: false }
+        )
+      )
+    );
+  }
+  return serializeComposeDocument(copy);
+}
+
+/**
+ * Get the plain configuration of a compose document
+ */
+export function getComposeConfig(doc: Document): DockerComposeConfig {
+  return (doc.toJS() ?? {}) as DockerComposeConfig;
+}
+
+/**
+ * Check whether a service is defined
+ */
+export function hasComposeService(doc: Document, alias: string): boolean {
+  return doc.hasIn(["services", alias]);
+}
+
+/**
+ * Add (or replace) a service
+ */
+export function setComposeService(
+  doc: Document,
+  alias: string,
+  service: DockerComposeService
+): void {
+  const services = getSection(doc, "services");
+  const node = createComposeNode(doc, service);
+
+  const existing = findPair(services, alias);
+  if (existing) {
+    existing.value = node;
+    return;
+  }
+
+  const pair = doc.createPair(alias, node);
+  // Separate services by a blank line
+  if (services.items.length > 0 && isScalar(pair.key)) {
+    pair.key.spaceBefore = true;
+  }
+  services.items.push(pair);
+}
+
+/**
+ * Remove a service
+ */
+export function removeComposeService(doc: Document, alias: string): boolean {
+  const removed = doc.deleteIn(["services", alias]);
+
+  // The next service may now be the first one, drop its separating blank line
+  const services = doc.get("services", true);
+  const first = isMap(services) ? services.items[0] : undefined;
+  if (first && isScalar(first.key)) {
+    first.key.spaceBefore = false;
+  }
+  return removed;
+}
+
+/**
+ * Add a named volume
+ */
+export function addComposeVolume(doc: Document, name: string): void {
+  const volumes = getSection(doc, "volumes");
+  if (!volumes.has(name)) {
+    volumes.set(name, new Scalar(null));
+  }
+}
+
+/**
+ * Remove a named volume (and the volumes section when it gets empty)
+ */
+export function removeComposeVolume(doc: Document, name: string): boolean {
+  const removed = doc.deleteIn(["volumes", name]);
+  const volumes = doc.get("volumes", true);
+  if (isMap(volumes) && volumes.items.length === 0) {
+    doc.delete("volumes");
+  }
+  return removed;
+}
+
+/**
+ * Get the named volumes a service mounts (bind mounts and anonymous
+ * volumes are skipped)
+ */
+export function getServiceVolumes(service: DockerComposeService): string[] {
+  const names: string[] = [];
+  for (const entry of service.volumes ?? []) {
+    // Long syntax entries (mappings) aren't generated by the templates
+    if (typeof entry !== "string") {
+      continue;
+    }
+    const separator = entry.indexOf(":");
+    const source = separator === -1 ? "" : entry.slice(0, separator);
+    if (source && !/^[/.~$]/.test(source)) {
+      names.push(source);
+    }
+  }
+  return names;
+}
+
+/**
+ * Find the named volumes only a service uses (orphaned once it's removed)
+ */
+export function findOrphanedVolumes(doc: Document, alias: string): string[] {
+  const composeConfig = getComposeConfig(doc);
+  const services = composeConfig.services ?? {};
+  const volumes = composeConfig.volumes ?? {};
+  const service = services[alias];
+  if (!service) {
+    return [];
+  }
+
+  const usedElsewhere = new Set(
+    Object.entries(services)
+      .filter(([name]) => name !== alias)
+      .flatMap(([, other]) => getServiceVolumes(other ?? {}))
+  );
+
+  return [...new Set(getServiceVolumes(service))].filter(
+    (name) => name in volumes && !usedElsewhere.has(name)
+  );
+}
+
+/**
+ * Get the services that mount a named volume
+ */
+export function getVolumeServices(doc: Document, volume: string): string[] {
+  return Object.entries(getComposeConfig(doc).services ?? {})
+    .filter(([, service]) => getServiceVolumes(service ?? {}).includes(volume))
+    .map(([alias]) => alias);
+}
+
+/**
+ * Get the directory of a project's secrets files on the VPS (written from
+ * the local secrets vault)
+ */
+export function getSecretsDir(projectDir: string): string {
+  return `${projectDir}/secrets`;
+}
+
+/**
+ * Add a file based secret (kept when it's already defined)
+ */
+export function addComposeSecret(
+  doc: Document,
+  name: string,
+  file: string
+): void {
+  const secrets = getSection(doc, "secrets");
+  if (!secrets.has(name)) {
+    secrets.set(name, createComposeNode(doc, { file }));
+  }
+}
+
+/**
+ * Get the secrets of a project that are files of its secrets directory,
+ * i.e. secrets of the vault under the same name
+ */
+export function getVaultSecrets(doc: Document, projectDir: string): string[] {
+  return Object.entries(getComposeConfig(doc).secrets ?? {})
+    .filter(
+      ([name, secret]) =>
+        secret?.file === `${getSecretsDir(projectDir)}/${name}`
+    )
+    .map(([name]) => name);
+}
+
+/**
+ * Get the owners of secrets files ("uid:gid") from the uid and gid that
+ * services give in the long syntax, so unprivileged container users can
+ * read them
+ */
+export function getSecretOwners(doc: Document): Record<string, string> {
+  const owners: Record<string, string> = {};
+  for (const service of Object.values(getComposeConfig(doc).services ?? {})) {
+    for (const secret of service?.secrets ?? []) {
+      if (typeof secret !== "string" && secret.uid !== undefined) {
+        owners[secret.source] = `${secret.uid}:${secret.gid ?? secret.uid}`;
+      }
+    }
+  }
+  return owners;
+}
+
+/**
+ * Get the services that use any of the given secrets
+ */
+export function getSecretServices(doc: Document, names: string[]): string[] {
+  return Object.entries(getComposeConfig(doc).services ?? {})
+    .filter(([, service]) =>
+      (service?.secrets ?? []).some((secret) =>
+        names.includes(typeof secret === "string" ? secret : secret.source)
+      )
+    )
+    .map(([alias]) => alias);
+}
+
+/**
+ * Get the path of a service's env file on the VPS (managed by compose env)
+ */
+export function getServiceEnvFilePath(
+  projectDir: string,
+  alias: string
+): string {
+  return `${projectDir}/env/${alias}.env`;
+}
+
+/**
+ * Get the variables a service sets in the compose file (map or list syntax)
+ */
+export function getServiceEnvironment(
+  service: DockerComposeService
+): Record<string, string> {
+  const environment = service.environment ?? {};
+  if (Array.isArray(environment)) {
+    return Object.fromEntries(
+      environment.map((entry) => {
+        const separator = String(entry).indexOf("=");
+        return separator === -1
+          ? [String(entry), ""]
+          : [entry.slice(0, separator), entry.slice(separator + 1)];
+      })
+    );
+  }
+  return Object.fromEntries(
+    Object.entries(environment).map(([key, value]) => [
+      key,
+      String(value ?? ""),
+    ])
+  );
+}
+
+/**
+ * Reference an env file from a service (next to its environment)
+ * Returns whether the service changed
+ */
+export function addServiceEnvFile(
+  doc: Document,
+  alias: string,
+  path: string
+): boolean {
+  const service = doc.getIn(["services", alias], true);
+  if (!isMap(service)) {
+    throw new Error(`Service not found: ${alias}`);
+  }
+
+  const pair = findPair(service, "env_file");
+  if (!pair) {
+    const index = service.items.findIndex(
+      (item) => isScalar(item.key) && item.key.value === "environment"
+    );
+    service.items.splice(
+      index === -1 ? service.items.length : index,
+      0,
+      doc.createPair("env_file", createComposeNode(doc, [path]))
+    );
+    return true;
+  }
+
+  // env_file is a path or a list of paths ({ path: ... } in the long syntax)
+  const current = getComposeConfig(doc).services?.[alias]?.env_file ?? [];
+  const entries: unknown[] = Array.isArray(current) ? current : [current];
+  if (
+    entries.some(
+      (entry) =>
+        entry === path ||
+        (typeof entry === "object" &&
+          (entry as { path?: unknown } | null)?.path === path)
+    )
+  ) {
+    return false;
+  }
+
+  if (isSeq(pair.value)) {
+    pair.value.items.push(createComposeNode(doc, path));
+  } else {
+    pair.value = createComposeNode(doc, [...entries, path]);
+  }
+  return true;
+}
+
+/**
+ * Remove a variable from a service's environment section (and the section
+ * when it gets empty); returns whether it was set there
+ */
+export function removeServiceEnvironment(
+  doc: Document,
+  alias: string,
+  key: string
+): boolean {
+  const environment = doc.getIn(["services", alias, "environment"], true);
+
+  let removed = false;
+  if (isMap(environment)) {
+    removed = environment.delete(key);
+  } else if (isSeq(environment)) {
+    const index = environment.items.findIndex((item) => {
+      const value = isScalar(item) ? String(item.value) : "";
+      return value === key || value.startsWith(`${key}=`);
+    });
+    if (index !== -1) {
+      environment.items.splice(index, 1);
+      removed = true;
+    }
+  }
+
+  if (
+    removed &&
+    (isMap(environment) || isSeq(environment)) &&
+    environment.items.length === 0
+  ) {
+    doc.deleteIn(["services", alias, "environment"]);
+  }
+  return removed;
+}
+
+/**
+ * Find the Docker volume of a project's named volume through the labels
+ * docker compose sets; null when it wasn't created yet
+ */
+export async function findDockerVolume(
+  doc: Document,
+  projectName: string,
+  volume: string,
+  config: VPSConfig
+): Promise<string | null> {
+  // docker compose derives the project name from the directory name
+  const composeProject =
+    getComposeConfig(doc).name ??
+    projectName.toLowerCase().replace(/[^a-z0-9_-]/g, "");
+
+  const output = await sshExecStdout(
+    shellCommand([
+      "docker",
+      "volume",
+      "ls",
+      "--quiet",
+      "--filter",
+      `label=com.docker.compose.project=${composeProject}`,
+      "--filter",
+      `label=com.docker.compose.volume=${volume}`,
+    ]),
+    getSSHOptions(config, { agentForward: true })
+  );
+  return (
+    output
+      .split("\n")
+      .map((line) => line.trim())
+      .find((line) => line) ?? null
+  );
+}
+
+/**
+ * Ensure the default network of a project is defined
+ */
+export function ensureComposeNetwork(doc: Document, projectName: string): void {
+  const networks = getSection(doc, "networks");
+  if (!networks.has("default")) {
+    networks.set(
+      "default",
+      createComposeNode(doc, { name: `${projectName}_network` })
+    );
+  }
+}
+
+/**
+ * Load the compose file of a project (throws when it's missing)
+ */
+export async function readComposeFile(
+  projectDir: string,
+  config: VPSConfig
+): Promise<Document> {
+  const composeFile = getComposeFilePath(projectDir);
+  const exists = await sshExecQuiet(
+    shellCommand(["test", "-f", composeFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
+  if (!exists.success) {
+    throw new Error(`docker-compose.yml not found on VPS: ${composeFile}`);
+  }
+
+  return parseComposeDocument(
+    await downloadContent(
+      composeFile,
+      getSSHOptions(config, { agentForward: true })
+    )
+  );
+}
+
+/**
+ * Write the compose file of a project
+ * An existing file is backed up first; returns the path of the backup
+ */
+export async function writeComposeFile(
+  projectDir: string,
+  doc: Document,
+  config: VPSConfig
+): Promise<string | undefined> {
+  const composeFile = getComposeFilePath(projectDir);
+
+  let backupFile: string | undefined;
+  const exists = await sshExecQuiet(
+    shellCommand(["test", "-f", composeFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
+  if (exists.success) {
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[:.]/g, "-")
+      .slice(0, -5);
+    backupFile = `/tmp/docker-compose.backup.${timestamp}.yml`;
+    await sshExec(
+      shellCommand(["cp", composeFile, backupFile]),
+      getSSHOptions(config, { agentForward: true })
+    );
+  }
+
+  const uploadResult = await uploadContent(
+    serializeComposeDocument(doc),
+    composeFile,
+    getSSHOptions(config, { agentForward: true }),
+    { mode: "644" }
+  );
+
+  if (!uploadResult.success) {
+    throw new Error(
+      `Failed to upload docker-compose.yml: ${uploadResult.stderr}` +
+        (backupFile ? `\nRestore the backup from: ${backupFile}` : "")
+    );
+  }
+
+  return backupFile;
+}
+
+/**
+ * Archive a project directory to <compose home>/.archive, then remove the
+ * containers and volumes of the project and delete its directory
+ * The secrets directory isn't archived: its values are kept in the vault and
+ * files owned by a container user can't be read by the VPS user; returns the
+ * path of the archive
+ */
+export async function destroyComposeProject(
+  projectName: string,
+  config: VPSConfig
+): Promise<string> {
+  const composeHome = await getComposeHome(config);
+  const projectDir = `${composeHome}/${projectName}`;
+  const composeFile = getComposeFilePath(projectDir);
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+  const archiveDir = `${composeHome}/.archive`;
+  const archiveFile = `${archiveDir}/${projectName}.${timestamp}.tar.gz`;
+
+  const archiveResult = await sshExec(
+    `${shellCommand(["mkdir", "-p", archiveDir])} && ${shellCommand([
+      "tar",
+      "-czf",
+      archiveFile,
+      "--anchored",
+      `--exclude=${projectName}/secrets`,
+      "-C",
+      composeHome,
+      projectName,
+    ])}`,
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  if (!archiveResult.success) {
+    throw new Error(
+      `Failed to archive ${projectDir}, the project was left unchanged: ` +
+        archiveResult.stderr
+    );
+  }
+
+  const fileExists = await sshExecQuiet(
+    shellCommand(["test", "-f", composeFile]),
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  if (fileExists.success) {
+    const downResult = await sshExecStream(
+      shellCommandIn(projectDir, [
+        "docker",
+        "compose",
+        "down",
+        "--volumes",
+        "--remove-orphans",
+      ]),
+      getSSHOptions(config, { agentForward: true })
+    );
+
+    if (!downResult.success) {
+      throw new Error(
+        `Failed to stop project '${projectName}', archive of its ` +
+          `directory: ${archiveFile}`
+      );
+    }
+  }
+
+  const deleteResult = await sshExec(
+    shellCommand(["rm", "-rf", projectDir]),
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  if (!deleteResult.success) {
+    throw new Error(`Failed to delete ${projectDir}: ${deleteResult.stderr}`);
+  }
+
+  return archiveFile;
+}
+
+/**
+ * List the projects of the compose home (directories with a compose file)
+ */
+export async function listComposeProjects(
+  config: VPSConfig
+): Promise<ComposeProjectSummary[]> {
+  const composeHome = await getComposeHome(config);
+
+  const records = await runRemoteScript<{
+    name: string;
+    running: string;
+    compose: string;
+  }>(
+    `
+for file in ${shellQuote(composeHome)}/*/docker-compose.yml; do
+  [ -f "$file" ] || continue
+  dir=$(dirname "$file")
+  running=$(cd "$dir" && docker compose ps --quiet --status running 2>/dev/null | wc -l)
+  emit name "$(basename "$dir")" running "$running" compose "$(cat "$file")"
+done
+`,
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  return records.map((record) => {
+    const directory = `${composeHome}/${record.name}`;
+    let services: number | null;
+    try {
+      const composeConfig = getComposeConfig(
+        parseComposeDocument(record.compose)
+      );
+      services = Object.keys(composeConfig.services ?? {}).length;
+    } catch {
+      services = null;
+    }
+
+    return {
+      name: record.name,
+      directory,
+      composeFile: getComposeFilePath(directory),
+      services,
+      running: parseInt(record.running, 10) || 0,
+    };
+  });
+}
+
+/**
+ * Container entry of docker compose ps --format json
+ */
+interface DockerPsEntry {
+  Name?: string;
+  Service?: string;
+  Image?: string;
+  State?: string;
+  Health?: string;
+  Status?: string;
+  ExitCode?: number;
+  Publishers?: {
+    URL?: string;
+    TargetPort?: number;
+    PublishedPort?: number;
+    Protocol?: string;
+  }[];
+}
+
+/**
+ * Format the published ports of a container, e.g. 127.0.0.1:3306->3306/tcp
+ * Ports published on all addresses (IPv4 and IPv6) are listed once
+ */
+function formatPublishers(publishers: DockerPsEntry["Publishers"]): string[] {
+  const ports = new Set<string>();
+  for (const publisher of publishers ?? []) {
+    if (!publisher.PublishedPort) {
+      continue;
+    }
+    const address =
+      !publisher.URL || publisher.URL === "0.0.0.0" || publisher.URL === "::"
+        ? ""
+        : `${publisher.URL}:`;
+    ports.add(
+      `${address}${publisher.PublishedPort}->${publisher.TargetPort}/` +
+        `${publisher.Protocol ?? "tcp"}`
+    );
+  }
+  return [...ports];
+}
+
+/**
+ * Parse the output of docker compose ps --format json
+ * Older Compose versions print a JSON array, newer ones one object per line
+ */
+export function parseComposePs(output: string): ComposeContainerStatus[] {
+  const trimmed = output.trim();
+  const entries: DockerPsEntry[] = trimmed.startsWith("[")
+    ? JSON.parse(trimmed)
+    : trimmed
+        .split("\n")
+        .filter((line) => line.trim().startsWith("{"))
+        .map((line) => JSON.parse(line));
+
+  return entries.map((entry) => {
+    const status = entry.Status ?? "";
+    return {
+      service: entry.Service ?? "",
+      container: entry.Name ?? "",
+      image: entry.Image ?? "",
+      state: entry.State ?? "",
+      health: entry.Health ?? "",
+      status,
+      uptime: status.match(/^Up (.+?)(?: \(.*\))?$/)?.[1] ?? "",
+      exitCode: entry.ExitCode ?? 0,
+      ports: formatPublishers(entry.Publishers),
+    };
+  });
+}
+
+/**
+ * Get the state of the containers of a project (including stopped ones)
+ */
+export async function getComposeStatus(
+  projectDir: string,
+  config: VPSConfig
+): Promise<ComposeContainerStatus[]> {
+  const output = await sshExecStdout(
+    shellCommandIn(projectDir, [
+      "docker",
+      "compose",
+      "ps",
+      "--all",
+      "--format",
+      "json",
+    ]),
+    getSSHOptions(config, { agentForward: true })
+  );
+  return parseComposePs(output);
+}
+
+/**
+ * Get the restart counts of a project's containers (by container name)
+ */
+export async function getComposeRestarts(
+  projectDir: string,
+  config: VPSConfig
+): Promise<Record<string, number>> {
+  const output = await sshExecStdout(
+    `${shellCommandIn(projectDir, [
+      "docker",
+      "compose",
+      "ps",
+      "--all",
+      "--quiet",
+    ])} | xargs -r ${shellCommand([
+      "docker",
+      "inspect",
+      "--format",
+      "{{.Name}} {{.RestartCount}}",
+    ])}`,
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  const restarts: Record<string, number> = {};
+  for (const line of output.split("\n")) {
+    const match = line.trim().match(/^\/?(\S+) (\d+)$/);
+    if (match?.[1] && match[2]) {
+      restarts[match[1]] = Number(match[2]);
+    }
+  }
+  return restarts;
+}
+
+/**
+ * Get the configuration hashes of a project's services (docker compose
+ * config --hash), which change when a service's container must be recreated
+ * Pass content to hash a changed compose file instead of the current one
+ * (see serializeComposeForHash); returns null when docker compose can't
+ * resolve the configuration
+ */
+export async function getComposeHashes(
+  projectDir: string,
+  content: string | null,
+  config: VPSConfig
+): Promise<Record<string, string> | null> {
+  const result = await sshExecQuiet(
+    shellCommandIn(projectDir, [
+      "docker",
+      "compose",
+      ...(content === null ? [] : ["--file", "-"]),
+      "config",
+      "--hash",
+      "*",
+    ]),
+    getSSHOptions(config, { agentForward: true }),
+    content ?? undefined
+  );
+  if (!result.success) {
+    return null;
+  }
+
+  const hashes: Record<string, string> = {};
+  for (const line of result.stdout.split("\n")) {
+    const match = line.trim().match(/^(\S+)\s+([0-9a-f]{64})$/);
+    if (match?.[1] && match[2]) {
+      hashes[match[1]] = match[2];
+    }
+  }
+  return hashes;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { extractHostOption } from "./config.js";
+
+describe("extractHostOption", () => {
+  test("takes the host from options before the subcommand", () => {
+    expect(extractHostOption(["--host", "staging", "up", "myapp"])).toEqual({
+      hostName: "staging",
+      args: ["up", "myapp"],
+    });
+    expect(extractHostOption(["--host=staging", "ps", "myapp"])).toEqual({
+      hostName: "staging",
+      args: ["ps", "myapp"],
+    });
+    expect(extractHostOption(["--yes", "--host", "prod", "repin"])).toEqual({
+      hostName: "prod",
+      args: ["--yes", "repin"],
+    });
+  });
+
+  test("passes on the arguments of a remote command unchanged", () => {
+    const exec = [
+      "exec",
+      "myapp",
+      "db",
+      "mysql",
+      "--host=127.0.0.1",
+      "-u",
+      "root",
+    ];
+    expect(extractHostOption(exec)).toEqual({
+      hostName: undefined,
+      args: exec,
+    });
+
+    expect(
+      extractHostOption([
+        "--host",
+        "staging",
+        "exec",
+        "myapp",
+        "pg",
+        "psql",
+        "--host",
+        "localhost",
+      ])
+    ).toEqual({
+      hostName: "staging",
+      args: ["exec", "myapp", "pg", "psql", "--host", "localhost"],
+    });
+  });
+
+  test("stops at --", () => {
+    expect(extractHostOption(["--", "--host", "x"])).toEqual({
+      hostName: undefined,
+      args: ["--host", "x"],
+    });
+  });
+
+  test("requires a host name", () => {
+    expect(() => extractHostOption(["--host"])).toThrow(
+      "Option --host requires a host name"
+    );
+  });
+});
@@ -1,6 +1,14 @@
-import { type VPSConfig, type ProvisionConfig } from "./types.js";
+import {
+  type VPSConfig,
+  type SSHOptions,
+  type ProvisionConfig,
+  type Inventory,
+  type InventoryHost,
+} from "./types.js";
+import { parseEnvContent } from "./env.js";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
+import yaml from "yaml";
 
 /**
  * Load and parse .env file
@@ -12,35 +20,7 @@ async function loadEnvFile(envPath: string): Promise<Record<string, string>> {
       return {};
     }
 
-    const content = await file.text();
-    const env: Record<string, string> = {};
-
-    for (const line of content.split("\n")) {
-      const trimmed = line.trim();
-      // Skip empty lines and comments
-      if (!trimmed || trimmed.startsWith("#")) {
-        continue;
-      }
-
-      // Parse KEY=VALUE format
-      const match = trimmed.match(/^([^=]+)=(.*)$/);
-      if (match?.[1] && match?.[2]) {
-        const key = match[1].trim();
-        let value = match[2].trim();
-
-        // Remove quotes if present
-        if (
-          (value.startsWith('"') && value.endsWith('"')) ||
-          (value.startsWith("'") && value.endsWith("'"))
-        ) {
-          value = value.slice(1, -1);
-        }
-
-        env[key] = value;
-      }
-    }
-
-    return env;
+    return parseEnvContent(await file.text());
   } catch (error) {
     // If file doesn't exist or can't be read, return empty object
     return {};
@@ -48,25 +28,182 @@ async function loadEnvFile(envPath: string): Promise<Record<string, string>> {
 }
 
 /**
- * Find .env file in common locations
+ * Get the bin/ directory of the project (where executables and config live)
  */
-function findEnvFile(): string {
-  // Try to find .env relative to the bin directory (where executables are)
+export function getBinDir(): string {
   const __filename = fileURLToPath(import.meta.url);
   const __dirname = dirname(__filename);
 
   // If we're in src/lib/, go up to project root, then to bin/
   const projectRoot = join(__dirname, "..", "..");
-  const binEnvPath = join(projectRoot, "bin", ".env");
+  return join(projectRoot, "bin");
+}
 
-  return binEnvPath;
+/**
+ * Find .env file in common locations
+ */
+function findEnvFile(): string {
+  // Try to find .env relative to the bin directory (where executables are)
+  return join(getBinDir(), ".env");
 }
 
 /**
- * Load VPS configuration from .env file and environment variables
- * Environment variables take precedence over .env file values
+ * Find inventory file (VPS_INVENTORY takes precedence over bin/inventory.yml)
  */
-export async function loadVPSConfig(): Promise<VPSConfig> {
+export function findInventoryFile(): string {
+  return process.env.VPS_INVENTORY || join(getBinDir(), "inventory.yml");
+}
+
+/**
+ * Load and parse the inventory file, returns null if there is none
+ */
+export async function loadInventory(): Promise<Inventory | null> {
+  const inventoryPath = findInventoryFile();
+  const file = Bun.file(inventoryPath);
+  if (!(await file.exists())) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = yaml.parse(await file.text());
+  } catch (error) {
+    throw new Error(
+      `Failed to parse inventory ${inventoryPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const inventory = parsed as Partial<Inventory> | null;
+  if (
+    !inventory ||
+    typeof inventory !== "object" ||
+    !inventory.hosts ||
+    typeof inventory.hosts !== "object"
+  ) {
+    throw new Error(
+      `Invalid inventory ${inventoryPath}: expected a "hosts" mapping`
+    );
+  }
+
+  return {
+    default: inventory.default,
+    hosts: inventory.hosts,
+  };
+}
+
+/**
+ * Pick a host entry from the inventory
+ * Falls back to the inventory default, or the only host when there is just one
+ */
+function selectInventoryHost(
+  inventory: Inventory,
+  hostName?: string
+): { name: string; entry: InventoryHost } | null {
+  const names = Object.keys(inventory.hosts);
+  const name =
+    hostName ??
+    inventory.default ??
+    (names.length === 1 ? names[0] : undefined);
+
+  if (!name) {
+    return null;
+  }
+
+  const entry = inventory.hosts[name];
+  if (!entry) {
+    throw new Error(
+      `Unknown host '${name}' in ${findInventoryFile()}. ` +
+        `Available hosts: ${names.join(", ") || "(none)"}`
+    );
+  }
+
+  return { name, entry };
+}
+
+/**
+ * Remove the --host <name> (or --host=<name>) option from command arguments
+ * Only options before the first positional argument (the subcommand) or
+ * "--" are looked at, so arguments of a remote command (e.g. mysql --host)
+ * are passed on unchanged
+ */
+export function extractHostOption(args: string[]): {
+  hostName?: string;
+  args: string[];
+} {
+  const rest: string[] = [];
+  let hostName: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? "";
+    if (arg === "--") {
+      rest.push(...args.slice(i + 1));
+      break;
+    } else if (arg === "--host") {
+      hostName = args[i + 1];
+      if (!hostName) {
+        throw new Error("Option --host requires a host name");
+      }
+      i++;
+    } else if (arg.startsWith("--host=")) {
+      hostName = arg.slice("--host=".length);
+    } else if (!arg.startsWith("-")) {
+      rest.push(...args.slice(i));
+      break;
+    } else {
+      rest.push(arg);
+    }
+  }
+
+  return { hostName, args: rest };
+}
+
+/**
+ * Normalize jump hosts, either a list or a comma separated string
+ */
+function parseJumpHosts(jump?: string | string[]): string[] | undefined {
+  const hops = (Array.isArray(jump) ? jump : (jump ?? "").split(","))
+    .map((hop) => String(hop).trim())
+    .filter(Boolean);
+
+  for (const hop of hops) {
+    if (!/^(?:[a-zA-Z0-9_.-]+@)?[a-zA-Z0-9_.:\[\]-]+$/.test(hop)) {
+      throw new Error(`Invalid jump host: ${hop}`);
+    }
+  }
+
+  return hops.length > 0 ? hops : undefined;
+}
+
+/**
+ * Load VPS configuration for a host
+ * A host selected from the inventory file wins; without an inventory (or
+ * without a selected host) .env file and environment variables are used,
+ * where environment variables take precedence over .env file values
+ */
+export async function loadVPSConfig(hostName?: string): Promise<VPSConfig> {
+  const inventory = await loadInventory();
+
+  if (!inventory && hostName) {
+    throw new Error(
+      `Cannot select host '${hostName}': inventory ${findInventoryFile()} not found`
+    );
+  }
+
+  const selected = inventory ? selectInventoryHost(inventory, hostName) : null;
+  if (selected) {
+    return {
+      vpsName: selected.name,
+      vpsHost: selected.entry.host || "",
+      vpsUser: selected.entry.user || "",
+      vpsHostname: selected.entry.hostname,
+      vpsTimezone: selected.entry.timezone,
+      vpsSshPubkey: selected.entry.pubkey,
+      vpsJump: parseJumpHosts(selected.entry.jump),
+    };
+  }
+
   const envFile = findEnvFile();
   const fileEnv = await loadEnvFile(envFile);
 
@@ -82,6 +219,7 @@ export async function loadVPSConfig(): Promise<VPSConfig> {
     vpsHostname: env.VPS_HOSTNAME,
     vpsTimezone: env.VPS_TIMEZONE,
     vpsSshPubkey: env.VPS_SSH_PUBKEY,
+    vpsJump: parseJumpHosts(env.VPS_JUMP),
   };
 
   return config;
@@ -113,12 +251,23 @@ export function validateVPSConfig(
  * Load and validate VPS config, throwing if required fields are missing
  */
 export async function loadAndValidateVPSConfig(
-  required: Array<keyof VPSConfig> = ["vpsHost", "vpsUser"]
+  required: Array<keyof VPSConfig> = ["vpsHost", "vpsUser"],
+  hostName?: string
 ): Promise<VPSConfig> {
-  const config = await loadVPSConfig();
+  const config = await loadVPSConfig(hostName);
   const validation = validateVPSConfig(config, required);
 
   if (!validation.valid) {
+    if (config.vpsName) {
+      const keys = validation.missing.map((field) =>
+        inventoryKey(field as keyof VPSConfig)
+      );
+      throw new Error(
+        `Missing required configuration for host '${config.vpsName}': ` +
+          `${keys.join(", ")}. Set them in ${findInventoryFile()}.`
+      );
+    }
+
     const envVarNames = validation.missing.map((field) => {
       // Convert camelCase to UPPER_SNAKE_CASE
       return field
@@ -136,35 +285,55 @@ export async function loadAndValidateVPSConfig(
   return config;
 }
 
+/**
+ * Map a VPSConfig field to its inventory host key
+ */
+function inventoryKey(field: keyof VPSConfig): string {
+  const keys: Record<keyof VPSConfig, string> = {
+    vpsName: "name",
+    vpsHost: "host",
+    vpsUser: "user",
+    vpsHostname: "hostname",
+    vpsTimezone: "timezone",
+    vpsSshPubkey: "pubkey",
+    vpsJump: "jump",
+  };
+  return keys[field];
+}
+
 /**
  * Load provisioning-specific configuration
  */
-export async function loadProvisionConfig(): Promise<
-  ProvisionConfig & { vpsHost: string; vpsSshPubkey: string }
+export async function loadProvisionConfig(hostName?: string): Promise<
+  ProvisionConfig & {
+    vpsHost: string;
+    vpsJump?: string[];
+    vpsSshPubkey: string;
+  }
 > {
-  const config = await loadAndValidateVPSConfig([
-    "vpsHost",
-    "vpsUser",
-    "vpsHostname",
-    "vpsTimezone",
-  ]);
+  const config = await loadAndValidateVPSConfig(
+    ["vpsHost", "vpsUser", "vpsHostname", "vpsTimezone"],
+    hostName
+  );
 
   if (!config.vpsHostname || !config.vpsTimezone) {
     throw new Error(
-      "VPS_HOSTNAME and VPS_TIMEZONE are required for provisioning. " +
-        "Set them in bin/.env or as environment variables."
+      "VPS_HOSTNAME and VPS_TIMEZONE (hostname and timezone in the inventory) " +
+        "are required for provisioning. Set them in bin/inventory.yml, bin/.env " +
+        "or as environment variables."
     );
   }
 
   if (!config.vpsSshPubkey) {
     throw new Error(
-      "VPS_SSH_PUBKEY is required for provisioning. " +
-        "Set it in bin/.env or as environment variables."
+      "VPS_SSH_PUBKEY (pubkey in the inventory) is required for provisioning. " +
+        "Set it in bin/inventory.yml, bin/.env or as environment variables."
     );
   }
 
   return {
     vpsHost: config.vpsHost,
+    vpsJump: config.vpsJump,
     username: config.vpsUser,
     hostname: config.vpsHostname,
     timezone: config.vpsTimezone,
@@ -184,3 +353,18 @@ export function getConfigWithOverrides(
     ...overrides,
   };
 }
+
+/**
+ * Build SSH options for the configured host (including jump hosts)
+ */
+export function getSSHOptions(
+  config: VPSConfig,
+  overrides: Partial<SSHOptions> = {}
+): SSHOptions {
+  return {
+    host: config.vpsHost,
+    user: config.vpsUser,
+    proxyJump: config.vpsJump,
+    ...overrides,
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { createUnifiedDiff } from "./diff.js";
+
+describe("createUnifiedDiff", () => {
+  test("returns an empty string for equal texts", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\nb\n", "old", "new")).toBe("");
+  });
+
+  test("diffs a new file", () => {
+    expect(createUnifiedDiff("", "a\nb\n", "old", "new")).toBe(
+      "--- old\n+++ new\n@@ -0,0 +1,2 @@\n+a\n+b\n"
+    );
+  });
+
+  test("shows three lines of context and splits distant changes", () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = [...old];
+    changed.splice(1, 0, "added");
+    changed.splice(18, 1);
+
+    expect(
+      createUnifiedDiff(
+        `${old.join("\n")}\n`,
+        `${changed.join("\n")}\n`,
+        "old",
+        "new"
+      )
+    ).toBe(
+      [
+        "--- old",
+        "+++ new",
+        "@@ -1,4 +1,5 @@",
+        " line 1",
+        "+added",
+        " line 2",
+        " line 3",
+        " line 4",
+        "@@ -15,6 +16,5 @@",
+        " line 15",
+        " line 16",
+        " line 17",
+        "-line 18",
+        " line 19",
+        " line 20",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("lists removed lines before added ones", () => {
+    expect(
+      createUnifiedDiff("a\nb\nc\nd\n", "a\nB\nC\nd\n", "old", "new")
+    ).toBe("--- old\n+++ new\n@@ -1,4 +1,4 @@\n a\n-b\n-c\n+B\n+C\n d\n");
+  });
+
+  test("honours the context size", () => {
+    expect(
+      createUnifiedDiff("a\nb\nc\nd\ne\n", "a\nb\nx\nd\ne\n", "old", "new", 0)
+    ).toMatch(/^@@ -3,1 \+3,1 @@$/m);
+  });
+});
@@ -0,0 +1,131 @@
+// Unchanged lines shown around every change
+const DEFAULT_CONTEXT = 3;
+
+/**
+ * Line of a diff: kept (" "), removed ("-") or added ("+")
+ */
+interface DiffLine {
+  type: " " | "-" | "+";
+  text: string;
+  // Line numbers in the old and the new text (1-based)
+  oldLine: number;
+  newLine: number;
+}
+
+/**
+ * Split a text into lines (a final newline doesn't start another line)
+ */
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  return text.replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Diff two lists of lines through their longest common subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // lengths[i][j]: common subsequence of oldLines[i..] and newLines[j..]
+  const lengths = Array.from({ length: oldLines.length + 1 }, () =>
+    new Array<number>(newLines.length + 1).fill(0)
+  );
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      const row = lengths[i] ?? [];
+      row[j] =
+        oldLines[i] === newLines[j]
+          ? (lengths[i + 1]?.[j + 1] ?? 0) + 1
+          : Math.max(lengths[i + 1]?.[j] ?? 0, row[j + 1] ?? 0);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    const oldText = oldLines[i];
+    const newText = newLines[j];
+    if (i < oldLines.length && j < newLines.length && oldText === newText) {
+      lines.push({
+        type: " ",
+        text: oldText ?? "",
+        oldLine: ++i,
+        newLine: ++j,
+      });
+    } else if (
+      i < oldLines.length &&
+      (j >= newLines.length ||
+        (lengths[i + 1]?.[j] ?? 0) >= (lengths[i]?.[j + 1] ?? 0))
+    ) {
+      // Removed lines come first on ties, as in other unified diffs
+      lines.push({ type: "-", text: oldText ?? "", oldLine: ++i, newLine: j });
+    } else {
+      lines.push({ type: "+", text: newText ?? "", oldLine: i, newLine: ++j });
+    }
+  }
+  return lines;
+}
+
+/**
+ * Create a unified diff of two texts ("" when they're equal)
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = DEFAULT_CONTEXT
+): string {
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const changed = lines
+    .map((line, index) => (line.type === " " ? -1 : index))
+    .filter((index) => index !== -1);
+  if (changed.length === 0) {
+    return "";
+  }
+
+  // Group changes whose context overlaps into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [start, end] of hunks) {
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter((line) => line.type !== "+").length;
+    const newCount = hunk.filter((line) => line.type !== "-").length;
+    // Line before the hunk when it has no lines of that side
+    const first = hunk[0];
+    const oldStart =
+      oldCount === 0 ? first?.oldLine ?? 0 : firstLine(hunk, "+");
+    const newStart =
+      newCount === 0 ? first?.newLine ?? 0 : firstLine(hunk, "-");
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type}${line.text}`);
+    }
+  }
+  return `${output.join("\n")}\n`;
+}
+
+/**
+ * Get the first line number of a hunk on the side without lines of type
+ * skip ("+" for the old text, "-" for the new one)
+ */
+function firstLine(hunk: DiffLine[], skip: "+" | "-"): number {
+  const line = hunk.find((entry) => entry.type !== skip);
+  if (!line) {
+    return 0;
+  }
+  return skip === "+" ? line.oldLine : line.newLine;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatEnvLine,
+  parseEnvContent,
+  setEnvValues,
+  unsetEnvValues,
+} from "./env.js";
+
+describe("formatEnvLine", () => {
+  test("writes plain values without quotes", () => {
+    expect(formatEnvLine("PORT", "3000")).toBe("PORT=3000");
+    expect(formatEnvLine("URL", "https://example.com/a")).toBe(
+      "URL=https://example.com/a"
+    );
+    expect(formatEnvLine("EMPTY", "")).toBe("EMPTY=");
+  });
+
+  test("single quotes values compose would interpolate", () => {
+    expect(formatEnvLine("PASSWORD", "pa$$ word")).toBe("PASSWORD='pa$$ word'");
+    expect(formatEnvLine("URL", "https://example.com/?a=1&b=2")).toBe(
+      "URL='https://example.com/?a=1&b=2'"
+    );
+  });
+
+  test("rejects values env files can't hold", () => {
+    expect(() => formatEnvLine("A", "it's")).toThrow("single quote");
+    expect(() => formatEnvLine("A", "a\nb")).toThrow("line break");
+  });
+
+  test("rejects invalid names", () => {
+    expect(() => formatEnvLine("1A", "x")).toThrow("Invalid variable name");
+    expect(() => formatEnvLine("A-B", "x")).toThrow("Invalid variable name");
+  });
+});
+
+describe("setEnvValues", () => {
+  test("replaces existing lines in place and appends new ones", () => {
+    const content = "# app\nPORT=3000\n\nDEBUG=1\n";
+    expect(setEnvValues(content, { DEBUG: "0", TOKEN: "a b" })).toBe(
+      "# app\nPORT=3000\n\nDEBUG=0\nTOKEN='a b'\n"
+    );
+  });
+
+  test("creates the content of a new file", () => {
+    expect(setEnvValues("", { A: "1" })).toBe("A=1\n");
+  });
+
+  test("round trips through parseEnvContent", () => {
+    const values = { A: "x y", B: "$HOME", C: "" };
+    expect(parseEnvContent(setEnvValues("", values))).toEqual(values);
+  });
+});
+
+describe("unsetEnvValues", () => {
+  test("removes variables and keeps other lines", () => {
+    expect(unsetEnvValues("# app\nA=1\nB=2\n", ["A"])).toBe("# app\nB=2\n");
+    expect(unsetEnvValues("A=1\n", ["A"])).toBe("");
+  });
+});
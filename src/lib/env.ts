@@ -0,0 +1,137 @@
+// Valid environment variable names
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Names of variables holding secrets (masked in listings)
+const SECRET_KEY_PATTERN =
+  /PASS|SECRET|TOKEN|KEY|AUTH|CREDENTIAL|PRIVATE|SALT|CERT/i;
+
+// Values written without quotes
+const PLAIN_VALUE_PATTERN = /^[A-Za-z0-9_.,:/@+=%-]*$/;
+
+/**
+ * Parse the contents of a .env file (KEY=VALUE lines)
+ * Empty lines and comments are skipped, surrounding quotes are removed
+ */
+export function parseEnvContent(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    // Skip empty lines and comments
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+
+    // Parse KEY=VALUE format
+    const match = trimmed.match(/^([^=]+)=(.*)$/);
+    if (match?.[1] && match[2] !== undefined) {
+      const key = match[1].trim();
+      let value = match[2].trim();
+
+      // Remove quotes if present
+      if (
+        value.length >= 2 &&
+        ((value.startsWith('"') && value.endsWith('"')) ||
+          (value.startsWith("'") && value.endsWith("'")))
+      ) {
+        value = value.slice(1, -1);
+      }
+
+      env[key] = value;
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Validate an environment variable name
+ */
+export function assertValidEnvKey(key: string): void {
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(
+      `Invalid variable name '${key}': use letters, digits and '_', ` +
+        `not starting with a digit`
+    );
+  }
+}
+
+/**
+ * Format a KEY=VALUE line for an env file read by docker compose
+ * Values with special characters are single quoted, so compose doesn't
+ * interpolate them; single quotes and line breaks can't be represented
+ */
+export function formatEnvLine(key: string, value: string): string {
+  assertValidEnvKey(key);
+  if (PLAIN_VALUE_PATTERN.test(value)) {
+    return `${key}=${value}`;
+  }
+  if (/['\r\n]/.test(value)) {
+    throw new Error(
+      `Value of ${key} contains a single quote or a line break, which env ` +
+        `files can't hold`
+    );
+  }
+  return `${key}='${value}'`;
+}
+
+/**
+ * Set variables in the contents of an env file
+ * Existing lines are replaced in place, new variables are appended;
+ * comments and the order of other lines are kept
+ */
+export function setEnvValues(
+  content: string,
+  values: Record<string, string>
+): string {
+  const pending = new Map(Object.entries(values));
+  const lines = content.split("\n").filter((line, i, all) => {
+    // Drop the empty line after the final newline (re-added below)
+    return !(i === all.length - 1 && line === "");
+  });
+
+  const updated = lines.map((line) => {
+    const key = line.match(/^\s*([^#=\s][^=]*?)\s*=/)?.[1];
+    if (key !== undefined && pending.has(key)) {
+      const value = pending.get(key) ?? "";
+      pending.delete(key);
+      return formatEnvLine(key, value);
+    }
+    return line;
+  });
+
+  for (const [key, value] of pending) {
+    updated.push(formatEnvLine(key, value));
+  }
+
+  return updated.length > 0 ? `${updated.join("\n")}\n` : "";
+}
+
+/**
+ * Remove variables from the contents of an env file
+ */
+export function unsetEnvValues(content: string, keys: string[]): string {
+  const lines = content
+    .split("\n")
+    .filter((line) => {
+      const key = line.match(/^\s*([^#=\s][^=]*?)\s*=/)?.[1];
+      return key === undefined || !keys.includes(key);
+    })
+    .filter((line, i, all) => !(i === all.length - 1 && line === ""));
+
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+/**
+ * Check whether a variable holds a secret (by its name)
+ */
+export function isSecretEnvKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+/**
+ * Mask a secret value for listings
+ */
+export function maskEnvValue(value: string): string {
+  return value ? "********" : "";
+}
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import {
+  SSHAuthenticationError,
+  SSHConnectionError,
+  SSHRemoteExitError,
+  createSSHError,
+} from "./errors.js";
+import type { SSHResult } from "./types.js";
+
+const options = { host: "vps" };
+
+/**
+ * Failed result of ssh with the given stderr
+ */
+function failed(stderr: string, exitCode = 255): SSHResult {
+  return { stdout: "", stderr, exitCode, success: false };
+}
+
+/**
+ * Check whether a failure is retried
+ */
+function isTransient(stderr: string, exitCode = 255): boolean {
+  const error = createSSHError(failed(stderr, exitCode), options, true);
+  return error instanceof SSHConnectionError && error.transient;
+}
+
+describe("createSSHError", () => {
+  test("retries failures before the session is established", () => {
+    expect(
+      isTransient("ssh: connect to host vps port 22: Connection refused")
+    ).toBe(true);
+    expect(
+      isTransient("ssh: connect to host vps port 22: Connection timed out")
+    ).toBe(true);
+    expect(
+      isTransient("ssh: connect to host vps port 22: No route to host")
+    ).toBe(true);
+    expect(
+      isTransient(
+        "Connection timed out during banner exchange\nConnection to vps port 22 timed out"
+      )
+    ).toBe(true);
+    expect(
+      isTransient("kex_exchange_identification: read: Connection reset by peer")
+    ).toBe(true);
+  });
+
+  test("doesn't retry connections dropped while a command runs", () => {
+    expect(isTransient("Connection to vps closed by remote host.")).toBe(false);
+    expect(isTransient("client_loop: send disconnect: Broken pipe")).toBe(
+      false
+    );
+    expect(
+      isTransient("Read from remote host vps: Connection reset by peer")
+    ).toBe(false);
+  });
+
+  test("doesn't retry remote commands that exit with 255", () => {
+    expect(
+      isTransient(
+        "curl: (7) Failed to connect to localhost: Connection refused"
+      )
+    ).toBe(false);
+  });
+
+  test("classifies authentication failures and remote exits", () => {
+    expect(
+      createSSHError(
+        failed("deploy@vps: Permission denied (publickey)."),
+        options,
+        true
+      )
+    ).toBeInstanceOf(SSHAuthenticationError);
+    expect(createSSHError(failed("boom", 1), options, true)).toBeInstanceOf(
+      SSHRemoteExitError
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import type { SSHOptions, SSHResult } from "./types.js";
+
+/**
+ * Base class of all errors raised for a remote command
+ * Carries the result of the failed command when there is one
+ */
+export class SSHError extends Error {
+  readonly host: string;
+  readonly result?: SSHResult;
+
+  constructor(message: string, host: string, result?: SSHResult) {
+    super(message);
+    this.name = new.target.name;
+    this.host = host;
+    this.result = result;
+  }
+}
+
+/**
+ * The connection to the host could not be established (or was dropped)
+ * Transient failures (e.g. refused while the host reboots) can be retried
+ */
+export class SSHConnectionError extends SSHError {
+  readonly transient: boolean;
+
+  constructor(
+    message: string,
+    host: string,
+    result?: SSHResult,
+    transient = false
+  ) {
+    super(message, host, result);
+    this.transient = transient;
+  }
+}
+
+/**
+ * The host refused the credentials (e.g. the SSH key isn't authorized)
+ */
+export class SSHAuthenticationError extends SSHError {}
+
+/**
+ * The host key doesn't match the pinned host key (or none is pinned)
+ */
+export class SSHHostKeyError extends SSHError {}
+
+/**
+ * The command didn't finish within its timeout and was killed
+ */
+export class SSHTimeoutError extends SSHError {
+  readonly timeout: number;
+
+  constructor(
+    message: string,
+    host: string,
+    timeout: number,
+    result?: SSHResult
+  ) {
+    super(message, host, result);
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The remote command ran but exited with a non-zero exit code
+ */
+export class SSHRemoteExitError extends SSHError {
+  readonly exitCode: number;
+
+  constructor(message: string, host: string, result: SSHResult) {
+    super(message, host, result);
+    this.exitCode = result.exitCode;
+  }
+}
+
+// ssh exits with 255 when the connection itself failed
+const SSH_FAILURE_EXIT_CODE = 255;
+
+const AUTHENTICATION_FAILURE =
+  /Permission denied|Too many authentication failures|Authentication failed/i;
+
+// Failures worth retrying, e.g. while the host reboots or sshd restarts
+// Only failures before the session is established count: a connection
+// dropped later may have run part of a command, which isn't safe to repeat
+const TRANSIENT_CONNECTION_FAILURE =
+  /^ssh: connect to host .*: (?:Connection refused|Connection timed out|Operation timed out|No route to host|Network is unreachable)|Connection timed out during banner exchange|^kex_exchange_identification:|^ssh_exchange_identification:/im;
+
+/**
+ * Describe the last line of stderr (ssh reports the cause there)
+ */
+function reason(result: SSHResult): string {
+  const lines = result.stderr.split("\n").filter((line) => line.trim());
+  return lines[lines.length - 1]?.trim() || `exit code ${result.exitCode}`;
+}
+
+/**
+ * Build the error for a failed command
+ * Connection and authentication failures are only detected for the ssh
+ * transport; any other non-zero exit code is a failed remote command
+ */
+export function createSSHError(
+  result: SSHResult,
+  options: Pick<SSHOptions, "host" | "timeout">,
+  viaSSH: boolean
+): SSHError {
+  const host = options.host;
+
+  if (result.timedOut) {
+    return new SSHTimeoutError(
+      `Command on ${host} timed out after ${options.timeout}s`,
+      host,
+      options.timeout ?? 0,
+      result
+    );
+  }
+
+  if (viaSSH && result.exitCode === SSH_FAILURE_EXIT_CODE) {
+    if (AUTHENTICATION_FAILURE.test(result.stderr)) {
+      return new SSHAuthenticationError(
+        `Authentication to ${host} failed: ${reason(result)}`,
+        host,
+        result
+      );
+    }
+    return new SSHConnectionError(
+      `Connection to ${host} failed: ${reason(result)}`,
+      host,
+      result,
+      TRANSIENT_CONNECTION_FAILURE.test(result.stderr)
+    );
+  }
+
+  return new SSHRemoteExitError(
+    `Command on ${host} failed with exit code ${result.exitCode}: ${reason(
+      result
+    )}`,
+    host,
+    result
+  );
+}
@@ -0,0 +1,274 @@
+import type { HostKey, HostKeyVerification, SSHOptions } from "./types.js";
+import { createHash } from "crypto";
+import { mkdirSync, mkdtempSync, rmSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { dirname, join } from "path";
+
+/**
+ * Get the path of the tool's own known_hosts store
+ * VPS_KNOWN_HOSTS takes precedence over ~/.config/vps.js/known_hosts
+ */
+export function getKnownHostsFile(): string {
+  return (
+    process.env.VPS_KNOWN_HOSTS ||
+    join(homedir(), ".config", "vps.js", "known_hosts")
+  );
+}
+
+/**
+ * SSH options that verify the host key against the pinned store
+ * HostKeyAlias keys the entries by the configured host (e.g. SSH config alias)
+ */
+export function hostKeyOptions(host: string): string[] {
+  return [
+    "-o",
+    "StrictHostKeyChecking=yes",
+    "-o",
+    `UserKnownHostsFile=${getKnownHostsFile()}`,
+    "-o",
+    "GlobalKnownHostsFile=/dev/null",
+    "-o",
+    `HostKeyAlias=${host}`,
+  ];
+}
+
+/**
+ * Compute the SHA256 fingerprint of a base64 encoded public key
+ * Matches the output of `ssh-keygen -l`
+ */
+export function fingerprint(key: string): string {
+  const digest = createHash("sha256")
+    .update(Buffer.from(key, "base64"))
+    .digest("base64")
+    .replace(/=+$/, "");
+  return `SHA256:${digest}`;
+}
+
+/**
+ * Parse known_hosts lines for a host (plain, unhashed entries only)
+ */
+function parseKnownHosts(content: string, host: string): HostKey[] {
+  const keys: HostKey[] = [];
+
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+
+    const [hosts, type, key, ...comment] = trimmed.split(/\s+/);
+    if (!hosts || !type || !key) {
+      continue;
+    }
+
+    if (hosts.split(",").includes(host)) {
+      keys.push({
+        type,
+        key,
+        fingerprint: fingerprint(key),
+        comment: comment.join(" ") || undefined,
+      });
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Read all lines of the store (empty when it doesn't exist yet)
+ */
+async function readStore(): Promise<string[]> {
+  const file = Bun.file(getKnownHostsFile());
+  if (!(await file.exists())) {
+    return [];
+  }
+  return (await file.text()).split("\n").filter((line) => line.trim());
+}
+
+/**
+ * Get the host keys pinned for a host
+ */
+export async function getPinnedHostKeys(host: string): Promise<HostKey[]> {
+  return parseKnownHosts((await readStore()).join("\n"), host);
+}
+
+/**
+ * Replace the pinned host keys of a host
+ */
+export async function pinHostKeys(
+  host: string,
+  keys: HostKey[]
+): Promise<void> {
+  const pinnedAt = `pinned:${new Date().toISOString()}`;
+  const lines = (await readStore()).filter(
+    (line) => parseKnownHosts(line, host).length === 0
+  );
+
+  for (const key of keys) {
+    lines.push(`${host} ${key.type} ${key.key} ${pinnedAt}`);
+  }
+
+  const storePath = getKnownHostsFile();
+  mkdirSync(dirname(storePath), { recursive: true, mode: 0o700 });
+  await Bun.write(storePath, lines.length > 0 ? `${lines.join("\n")}\n` : "");
+}
+
+/**
+ * Remove the pinned host keys of a host
+ */
+export async function unpinHostKeys(host: string): Promise<void> {
+  await pinHostKeys(host, []);
+}
+
+/**
+ * Fetch the host key the server currently presents
+ * Connects through ssh itself (honouring ~/.ssh/config) and records the
+ * key into a throwaway known_hosts file; authentication is not required
+ */
+export async function scanHostKeys(options: SSHOptions): Promise<HostKey[]> {
+  const scanDir = mkdtempSync(join(tmpdir(), "vps-scan-"));
+  const scanFile = join(scanDir, "known_hosts");
+
+  try {
+    const proc = Bun.spawn(
+      [
+        "ssh",
+        "-o",
+        "LogLevel=ERROR",
+        "-o",
+        "BatchMode=yes",
+        "-o",
+        `ConnectTimeout=${options.connectTimeout ?? 10}`,
+        "-o",
+        "StrictHostKeyChecking=accept-new",
+        "-o",
+        `UserKnownHostsFile=${scanFile}`,
+        "-o",
+        "GlobalKnownHostsFile=/dev/null",
+        "-o",
+        "HashKnownHosts=no",
+        "-o",
+        `HostKeyAlias=${options.host}`,
+        ...(options.proxyJump?.length
+          ? ["-o", `ProxyJump=${options.proxyJump.join(",")}`]
+          : []),
+        "-T",
+        `${options.user}@${options.host}`,
+        "exit",
+      ],
+      { stdin: "ignore", stdout: "ignore", stderr: "pipe" }
+    );
+    const stderr = await new Response(proc.stderr).text();
+    await proc.exited;
+
+    const file = Bun.file(scanFile);
+    const keys = (await file.exists())
+      ? parseKnownHosts(await file.text(), options.host)
+      : [];
+
+    if (keys.length === 0) {
+      throw new Error(
+        `Could not fetch host key of ${options.host}: ${
+          stderr.trim() || "no key received"
+        }`
+      );
+    }
+
+    return keys;
+  } finally {
+    rmSync(scanDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Compare the key the server presents with the pinned keys
+ */
+export async function verifyHostKeys(
+  options: SSHOptions
+): Promise<HostKeyVerification> {
+  const pinned = await getPinnedHostKeys(options.host);
+  const current = await scanHostKeys(options);
+
+  if (pinned.length === 0) {
+    return { status: "unpinned", pinned, current };
+  }
+
+  const pinnedFingerprints = new Set(pinned.map((key) => key.fingerprint));
+  const matches = current.every((key) =>
+    pinnedFingerprints.has(key.fingerprint)
+  );
+
+  return { status: matches ? "match" : "changed", pinned, current };
+}
+
+/**
+ * Format a host key as a single line
+ */
+export function formatHostKey(key: HostKey): string {
+  return `${key.type} ${key.fingerprint}${
+    key.comment ? ` (${key.comment})` : ""
+  }`;
+}
+
+/**
+ * Format a diff between pinned and currently presented host keys
+ */
+export function formatHostKeyDiff(
+  pinned: HostKey[],
+  current: HostKey[]
+): string {
+  const currentFingerprints = new Set(current.map((key) => key.fingerprint));
+  const pinnedFingerprints = new Set(pinned.map((key) => key.fingerprint));
+  const lines: string[] = [];
+
+  for (const key of pinned) {
+    const marker = currentFingerprints.has(key.fingerprint) ? " " : "-";
+    lines.push(`${marker} ${formatHostKey(key)}`);
+  }
+  for (const key of current) {
+    if (!pinnedFingerprints.has(key.fingerprint)) {
+      lines.push(`+ ${formatHostKey(key)}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Check whether ssh stderr output reports a host key problem
+ */
+export function isHostKeyFailure(stderr: string): boolean {
+  return /Host key verification failed|REMOTE HOST IDENTIFICATION HAS CHANGED|No \S+ host key is known/i.test(
+    stderr
+  );
+}
+
+/**
+ * Explain a failed host key verification (used when ssh refuses to connect)
+ */
+export async function describeHostKeyFailure(
+  options: SSHOptions
+): Promise<string> {
+  const { status, pinned, current } = await verifyHostKeys(options).catch(
+    () => ({ status: "unknown", pinned: [], current: [] })
+  );
+
+  if (status === "unpinned") {
+    return (
+      `No pinned host key for ${options.host}.\n` +
+      `Server presents:\n${formatHostKeyDiff([], current)}\n` +
+      `Verify the fingerprint and pin it with: bin/hostkey pin`
+    );
+  }
+
+  if (status === "changed") {
+    return (
+      `HOST KEY OF ${options.host} HAS CHANGED! Someone could be eavesdropping ` +
+      `(man-in-the-middle), or the host key was replaced.\n` +
+      `${formatHostKeyDiff(pinned, current)}\n` +
+      `If this change is expected, re-pin it with: bin/hostkey repin`
+    );
+  }
+
+  return `Host key verification failed for ${options.host}`;
+}
@@ -1,5 +1,30 @@
 import chalk from "chalk";
 
+// Colors of prefixed service output, picked per service name
+const SERVICE_COLORS = [
+  chalk.cyan,
+  chalk.magenta,
+  chalk.green,
+  chalk.yellow,
+  chalk.blue,
+  chalk.cyanBright,
+  chalk.magentaBright,
+  chalk.greenBright,
+  chalk.yellowBright,
+  chalk.blueBright,
+];
+
+/**
+ * Get the color of a service (the same name always gets the same color)
+ */
+function serviceColor(name: string): (text: string) => string {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return SERVICE_COLORS[hash % SERVICE_COLORS.length] ?? chalk.cyan;
+}
+
 /**
  * Logger utility matching bash script output patterns
  * Uses chalk for colored terminal output
@@ -110,6 +135,61 @@ export const log = {
     console.log(char.repeat(42));
   },
 
+  /**
+   * Print rows as a table with aligned columns (cells may be colored)
+   */
+  table: (headers: string[], rows: string[][]): void => {
+    const widths = headers.map((header, i) =>
+      Math.max(
+        Bun.stringWidth(header),
+        ...rows.map((row) => Bun.stringWidth(row[i] ?? ""))
+      )
+    );
+    const format = (cells: string[]): string =>
+      cells
+        .map((cell, i) =>
+          i === cells.length - 1
+            ? cell
+            : cell + " ".repeat((widths[i] ?? 0) - Bun.stringWidth(cell))
+        )
+        .join("  ");
+
+    console.log(chalk.bold(format(headers)));
+    for (const row of rows) {
+      console.log(format(row));
+    }
+  },
+
+  /**
+   * Print a line of service output prefixed with the service name
+   * (e.g. from docker compose logs), colored per service
+   */
+  service: (name: string, message: string, width = name.length): void => {
+    console.log(`${serviceColor(name)(name.padEnd(width))} |`, message);
+  },
+
+  /**
+   * Print a unified diff (removed lines red, added lines green)
+   */
+  diff: (diff: string): void => {
+    diff
+      .replace(/\n$/, "")
+      .split("\n")
+      .forEach((line, i) => {
+        if (i < 2) {
+          console.log(chalk.bold(line));
+        } else if (line.startsWith("@@")) {
+          console.log(chalk.cyan(line));
+        } else if (line.startsWith("+")) {
+          console.log(chalk.green(line));
+        } else if (line.startsWith("-")) {
+          console.log(chalk.red(line));
+        } else {
+          console.log(line);
+        }
+      });
+  },
+
   /**
    * Print a blank line
    */
@@ -0,0 +1,134 @@
+import { sshExec, shellCommand } from "./ssh.js";
+import { getSSHOptions } from "./config.js";
+import type { DockerComposeConfig, ProxySettings, VPSConfig } from "./types.js";
+import yaml from "yaml";
+
+// Label marking the reverse proxy service of a project
+export const PROXY_LABEL = "vps.js.proxy";
+
+// Ports the reverse proxy listens on (HTTP, HTTPS and HTTP/3)
+export const PROXY_PORTS = ["80/tcp", "443/tcp", "443/udp"];
+
+// Domains (optionally a wildcard) with labels of up to 63 characters
+const DOMAIN_PATTERN =
+  /^(?=.{1,253}$)(\*\.)?([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+/**
+ * Validate a domain before it is written into the Caddyfile
+ */
+export function assertValidDomain(domain: string): void {
+  if (!DOMAIN_PATTERN.test(domain)) {
+    throw new Error(`Invalid domain '${domain}'`);
+  }
+}
+
+/**
+ * Validate a global option value before it is written into the Caddyfile
+ */
+function assertCaddyValue(value: string, label: string): void {
+  if (!/^[^\s{}"#]+$/.test(value)) {
+    throw new Error(`Invalid ${label} '${value}'`);
+  }
+}
+
+/**
+ * Get the directory holding the Caddyfile and proxy.yml of a proxy service
+ * (mounted as /etc/caddy)
+ */
+export function getProxyDir(projectDir: string, alias: string): string {
+  return `${projectDir}/proxy/${alias}`;
+}
+
+/**
+ * Find the reverse proxy service of a project
+ */
+export function findProxyService(
+  composeConfig: DockerComposeConfig
+): string | undefined {
+  return Object.entries(composeConfig.services ?? {}).find(
+    ([, service]) => service.labels?.[PROXY_LABEL]
+  )?.[0];
+}
+
+/**
+ * Parse proxy.yml
+ */
+export function parseProxySettings(content: string): ProxySettings {
+  const parsed = (yaml.parse(content) ?? {}) as Partial<ProxySettings>;
+  return {
+    ...parsed,
+    routes: parsed.routes ?? {},
+  };
+}
+
+/**
+ * Serialize proxy settings to proxy.yml
+ */
+export function serializeProxySettings(settings: ProxySettings): string {
+  return `# Reverse proxy settings, bin/compose route renders the Caddyfile from them\n${yaml.stringify(
+    settings
+  )}`;
+}
+
+/**
+ * Render the Caddyfile for proxy settings
+ * Caddy obtains and renews the certificate of every routed domain
+ */
+export function renderCaddyfile(settings: ProxySettings): string {
+  const globals: string[] = [];
+  for (const [value, label] of [
+    [settings.email, "email"],
+    [settings.acmeCa, "ACME directory"],
+    [settings.acmeCaRoot, "ACME CA root"],
+  ] as const) {
+    if (value) {
+      assertCaddyValue(value, label);
+    }
+  }
+
+  if (settings.email) {
+    globals.push(`email ${settings.email}`);
+  }
+  if (settings.acmeCa === "internal") {
+    globals.push("local_certs");
+  } else if (settings.acmeCa) {
+    globals.push(`acme_ca ${settings.acmeCa}`);
+  }
+  if (settings.acmeCaRoot) {
+    globals.push(`acme_ca_root ${settings.acmeCaRoot}`);
+  }
+
+  const blocks = ["# Generated by bin/compose route, edit proxy.yml instead"];
+  if (globals.length > 0) {
+    blocks.push(`{\n${globals.map((line) => `\t${line}`).join("\n")}\n}`);
+  }
+
+  for (const [domain, route] of Object.entries(settings.routes).sort(
+    ([a], [b]) => a.localeCompare(b)
+  )) {
+    blocks.push(
+      `${domain} {\n\treverse_proxy ${route.service}:${route.port}\n}`
+    );
+  }
+
+  return `${blocks.join("\n\n")}\n`;
+}
+
+/**
+ * Allow ports in the VPS firewall (ufw)
+ * Returns false when the rules couldn't be added
+ */
+export async function allowFirewallPorts(
+  ports: string[],
+  config: VPSConfig
+): Promise<boolean> {
+  let allowed = true;
+  for (const port of ports) {
+    const result = await sshExec(
+      shellCommand(["sudo", "ufw", "allow", port]),
+      getSSHOptions(config, { quiet: true })
+    );
+    allowed = allowed && result.success;
+  }
+  return allowed;
+}
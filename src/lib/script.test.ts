@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { parseRecords, runRemoteProbe, runRemoteScript } from "./script.js";
+import { setTransport } from "./ssh.js";
+import { createLocalTransport } from "./transport.js";
+import { SSHRemoteExitError } from "./errors.js";
+import type { SSHOptions } from "./types.js";
+
+const options: SSHOptions = { host: "vps", user: "deploy", retry: false };
+const sentinel = "__VPS_RECORDS_test__";
+
+describe("parseRecords", () => {
+  test("parses the records between the sentinels", () => {
+    const output = [
+      "Welcome to Ubuntu",
+      sentinel,
+      '{"name":"a"}',
+      "",
+      '{"name":"b"}',
+      sentinel,
+      "trailing",
+    ].join("\n");
+    expect(parseRecords(output, sentinel)).toEqual([
+      { name: "a" },
+      { name: "b" },
+    ]);
+  });
+
+  test("fails when the output is incomplete", () => {
+    expect(() => parseRecords(`${sentinel}\n{"a":"1"}\n`, sentinel)).toThrow(
+      "sentinel missing"
+    );
+  });
+
+  test("fails on malformed records", () => {
+    expect(() =>
+      parseRecords(`${sentinel}\n{"a":\n${sentinel}\n`, sentinel)
+    ).toThrow("Malformed record from remote script");
+  });
+});
+
+describe("runRemoteScript", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "vps-test-"));
+    setTransport(createLocalTransport(root));
+  });
+
+  afterEach(() => {
+    setTransport(null);
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("returns the emitted records, other output is ignored", async () => {
+    const records = await runRemoteScript(
+      `
+echo "noise on stdout"
+emit name first count 1
+emit_json '{"list": [1, 2]}'
+`,
+      options
+    );
+    expect(records).toEqual([
+      { name: "first", count: "1" },
+      { list: [1, 2] } as unknown as Record<string, string>,
+    ]);
+  });
+
+  test("escapes quotes, backslashes and line breaks in values", async () => {
+    const [record] = await runRemoteScript(
+      `emit value "$(printf 'say "hi"\\\\\\n\\tend')"`,
+      options
+    );
+    expect(record?.value).toBe('say "hi"\\\n\tend');
+  });
+
+  test("escapes other control characters", async () => {
+    const [record] = await runRemoteScript(
+      `emit value "$(printf '\\033[31mred\\033[0m \\001\\037')"`,
+      options
+    );
+    expect(record?.value).toBe("\u001b[31mred\u001b[0m \u0001\u001f");
+  });
+
+  test("merges the records of a probe", async () => {
+    const probe = await runRemoteProbe<{ a: string; b: string }>(
+      `emit a 1 b 2
+emit b 3`,
+      options
+    );
+    expect(probe).toEqual({ a: "1", b: "3" });
+  });
+
+  test("throws the typed error when the script fails", async () => {
+    await expect(
+      runRemoteScript("emit a 1\nexit 3", options)
+    ).rejects.toBeInstanceOf(SSHRemoteExitError);
+  });
+});
@@ -0,0 +1,120 @@
+import type { SSHOptions } from "./types.js";
+import { sshExec } from "./ssh.js";
+import { randomBytes } from "crypto";
+
+/**
+ * Shell helpers available to remote scripts
+ * Records are written to fd 3 (the original stdout); anything else the
+ * script prints ends up on stderr, so it can't be mistaken for a record
+ *
+ *   emit <key> <value> [<key> <value> ...]   record with string values
+ *   emit_json <json>                         record with a raw JSON document
+ */
+const PRELUDE = String.raw`
+exec 3>&1 1>&2
+
+json_str() {
+  printf '%s' "$1" | awk '
+    BEGIN {
+      ORS = ""; print "\""
+      # Other control characters (e.g. ESC of colored output) as JSON escapes
+      for (i = 1; i < 32; i++) {
+        if (i != 9 && i != 10 && i != 13) {
+          control[sprintf("%c", i)] = sprintf("\\\\u%04x", i)
+        }
+      }
+    }
+    {
+      gsub(/\\/, "&&"); gsub(/"/, "\\\\\""); gsub(/\t/, "\\t"); gsub(/\r/, "\\r")
+      for (c in control) gsub(c, control[c])
+      if (NR > 1) print "\\n"
+      print
+    }
+    END { print "\"" }'
+}
+
+emit() {
+  record="{"
+  while [ $# -ge 2 ]; do
+    [ "$record" = "{" ] || record="$record,"
+    record="$record$(json_str "$1"):$(json_str "$2")"
+    shift 2
+  done
+  printf '%s}\n' "$record" >&3
+}
+
+emit_json() {
+  printf '%s' "$1" | tr '\n' ' ' >&3
+  printf '\n' >&3
+}
+`;
+
+/**
+ * Wrap a script so its records are delimited by a unique sentinel
+ * The body runs in a subshell, so set -e and exit only end the body
+ */
+function wrapScript(script: string, sentinel: string): string {
+  return `${PRELUDE}
+printf '%s\\n' '${sentinel}' >&3
+(
+${script}
+)
+status=$?
+printf '%s\\n' '${sentinel}' >&3
+exit $status
+`;
+}
+
+/**
+ * Parse the NDJSON records between the sentinels
+ */
+export function parseRecords<T>(output: string, sentinel: string): T[] {
+  const lines = output.split("\n");
+  const start = lines.indexOf(sentinel);
+  const end = lines.indexOf(sentinel, start + 1);
+
+  if (start === -1 || end === -1) {
+    throw new Error("Remote script output is incomplete (sentinel missing)");
+  }
+
+  return lines
+    .slice(start + 1, end)
+    .filter((line) => line.trim())
+    .map((line) => {
+      try {
+        return JSON.parse(line) as T;
+      } catch {
+        throw new Error(`Malformed record from remote script: ${line}`);
+      }
+    });
+}
+
+/**
+ * Run a remote script and return the records it emitted (NDJSON)
+ * Throws the typed SSH error when the script fails
+ */
+export async function runRemoteScript<T = Record<string, string>>(
+  script: string,
+  options: SSHOptions
+): Promise<T[]> {
+  const sentinel = `__VPS_RECORDS_${randomBytes(12).toString("hex")}__`;
+  const result = await sshExec(wrapScript(script, sentinel), options);
+
+  if (!result.success) {
+    throw result.error ?? new Error(`Remote script failed: ${result.stderr}`);
+  }
+
+  return parseRecords<T>(result.stdout, sentinel);
+}
+
+/**
+ * Run a remote script and merge the records it emitted into one document
+ * Later records override keys of earlier ones
+ */
+export async function runRemoteProbe<T extends object>(
+  script: string,
+  options: SSHOptions
+): Promise<Partial<T>> {
+  const records = await runRemoteScript<Partial<T>>(script, options);
+  return Object.assign({}, ...records) as Partial<T>;
+}
@@ -0,0 +1,358 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  hkdfSync,
+  randomBytes,
+  scryptSync,
+} from "crypto";
+import { chmodSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import {
+  sshExec,
+  sshExecQuiet,
+  shellCommand,
+  shellQuote,
+  uploadContent,
+} from "./ssh.js";
+import { getSSHOptions } from "./config.js";
+import type {
+  EncryptedValue,
+  SecretsVault,
+  SecretsVaultFile,
+  VPSConfig,
+} from "./types.js";
+
+// Allowed secret names (also valid as compose secret names and file names)
+const SECRET_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]{0,127}$/;
+
+// scrypt cost of passphrase keys (N = 2^15 needs 32 MiB)
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+// Plain text of the vault's check value
+const CHECK_VALUE = "vps.js secrets vault";
+
+/**
+ * Get the path of the local secrets vault
+ */
+export function getSecretsVaultFile(): string {
+  return (
+    process.env.VPS_SECRETS_FILE ||
+    join(homedir(), ".config", "vps.js", "secrets.vault")
+  );
+}
+
+/**
+ * Validate a secret name
+ */
+export function assertValidSecretName(name: string): void {
+  if (!SECRET_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid secret name '${name}': use up to 128 letters, digits, '.', ` +
+        `'_' or '-', starting with a letter or digit`
+    );
+  }
+}
+
+/**
+ * Read a line from the terminal without echoing it
+ */
+export function promptHidden(message: string): string {
+  if (!process.stdin.isTTY) {
+    throw new Error(`Can't prompt for input: stdin is not a terminal`);
+  }
+  Bun.spawnSync(["stty", "-echo"], { stdin: "inherit" });
+  try {
+    return prompt(message) ?? "";
+  } finally {
+    Bun.spawnSync(["stty", "echo"], { stdin: "inherit" });
+    process.stdout.write("\n");
+  }
+}
+
+/**
+ * Get the passphrase of the vault (VPS_SECRETS_PASSPHRASE or a prompt)
+ * A new passphrase is asked for twice
+ */
+function getPassphrase(confirmNew: boolean): string {
+  const fromEnv = process.env.VPS_SECRETS_PASSPHRASE;
+  if (fromEnv) {
+    return fromEnv;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      "Set VPS_SECRETS_PASSPHRASE or VPS_SECRETS_KEYFILE to unlock the " +
+        "secrets vault without a terminal"
+    );
+  }
+
+  const passphrase = promptHidden(
+    confirmNew ? "New secrets vault passphrase:" : "Secrets vault passphrase:"
+  );
+  if (!passphrase) {
+    throw new Error("The passphrase must not be empty");
+  }
+  if (confirmNew && promptHidden("Repeat the passphrase:") !== passphrase) {
+    throw new Error("The passphrases don't match");
+  }
+  return passphrase;
+}
+
+/**
+ * Derive the key of the vault
+ */
+function deriveKey(
+  kdf: SecretsVaultFile["kdf"],
+  salt: Buffer,
+  isNew: boolean
+): Buffer {
+  if (kdf === "keyfile") {
+    const keyFile = process.env.VPS_SECRETS_KEYFILE;
+    if (!keyFile) {
+      throw new Error(
+        "The secrets vault is locked with a key file, set VPS_SECRETS_KEYFILE"
+      );
+    }
+    return Buffer.from(
+      hkdfSync("sha256", readFileSync(keyFile), salt, "vps.js secrets", 32)
+    );
+  }
+  return scryptSync(getPassphrase(isNew), salt, 32, SCRYPT_OPTIONS);
+}
+
+/**
+ * Encrypt a value (the name is authenticated along with it)
+ */
+function encryptValue(
+  key: Buffer,
+  name: string,
+  value: string
+): EncryptedValue {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(name));
+  const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+
+  return {
+    iv: iv.toString("base64"),
+    data: data.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+  };
+}
+
+/**
+ * Decrypt a value (throws when the key or the name doesn't match)
+ */
+function decryptValue(
+  key: Buffer,
+  name: string,
+  encrypted: EncryptedValue
+): string {
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(encrypted.iv, "base64")
+  );
+  decipher.setAAD(Buffer.from(name));
+  decipher.setAuthTag(Buffer.from(encrypted.tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted.data, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+/**
+ * Read the vault file without unlocking it (null when there's none yet)
+ * Secret names and dates are stored in plain text
+ */
+export function readSecretsVaultFile(): SecretsVaultFile | null {
+  const path = getSecretsVaultFile();
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  const file = JSON.parse(readFileSync(path, "utf8")) as SecretsVaultFile;
+  if (file.version !== 1) {
+    throw new Error(`Unsupported secrets vault version in ${path}`);
+  }
+  return file;
+}
+
+/**
+ * Unlock the vault, creating it when it doesn't exist yet
+ * New vaults use VPS_SECRETS_KEYFILE when it's set, a passphrase otherwise
+ */
+export function openSecretsVault(): SecretsVault {
+  const path = getSecretsVaultFile();
+  const existing = readSecretsVaultFile();
+
+  if (!existing) {
+    const kdf = process.env.VPS_SECRETS_KEYFILE ? "keyfile" : "scrypt";
+    const salt = randomBytes(16);
+    const key = deriveKey(kdf, salt, true);
+    return {
+      path,
+      key,
+      file: {
+        version: 1,
+        kdf,
+        salt: salt.toString("base64"),
+        check: encryptValue(key, "", CHECK_VALUE),
+        secrets: {},
+      },
+    };
+  }
+
+  const key = deriveKey(
+    existing.kdf,
+    Buffer.from(existing.salt, "base64"),
+    false
+  );
+  try {
+    decryptValue(key, "", existing.check);
+  } catch {
+    throw new Error(
+      existing.kdf === "keyfile"
+        ? `Wrong key file for the secrets vault ${path}`
+        : `Wrong passphrase for the secrets vault ${path}`
+    );
+  }
+  return { path, key, file: existing };
+}
+
+/**
+ * Write the vault (readable by the local user only)
+ */
+export async function saveSecretsVault(vault: SecretsVault): Promise<void> {
+  mkdirSync(dirname(vault.path), { recursive: true, mode: 0o700 });
+  await Bun.write(vault.path, `${JSON.stringify(vault.file, null, 2)}\n`);
+  chmodSync(vault.path, 0o600);
+}
+
+/**
+ * Get the value of a secret (undefined when it doesn't exist)
+ */
+export function getSecret(
+  vault: SecretsVault,
+  name: string
+): string | undefined {
+  const encrypted = vault.file.secrets[name];
+  if (!encrypted) {
+    return undefined;
+  }
+  try {
+    return decryptValue(vault.key, name, encrypted);
+  } catch {
+    throw new Error(
+      `Secret '${name}' can't be decrypted, the vault is damaged`
+    );
+  }
+}
+
+/**
+ * Set the value of a secret (save the vault afterwards)
+ */
+export function setSecret(
+  vault: SecretsVault,
+  name: string,
+  value: string
+): void {
+  assertValidSecretName(name);
+  vault.file.secrets[name] = {
+    ...encryptValue(vault.key, name, value),
+    updated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Remove a secret (save the vault afterwards); returns whether it existed
+ */
+export function removeSecret(vault: SecretsVault, name: string): boolean {
+  const existed = name in vault.file.secrets;
+  delete vault.file.secrets[name];
+  return existed;
+}
+
+/**
+ * Write secrets of the vault to the secrets directory of a project on the VPS
+ * Files get mode 0400 (owned by owners[name] when given, e.g. "999:999" for
+ * the user of the container) and are only replaced when their value changed;
+ * returns the names of secrets whose existing file was replaced (services
+ * using them must be recreated, as they still see the old file)
+ */
+export async function pushSecrets(
+  vault: SecretsVault,
+  names: string[],
+  secretsDir: string,
+  owners: Record<string, string>,
+  config: VPSConfig
+): Promise<string[]> {
+  const values = new Map<string, string>();
+  for (const name of names) {
+    const value = getSecret(vault, name);
+    if (value === undefined) {
+      throw new Error(
+        `Secret '${name}' not found in the vault, set it with: ` +
+          `bin/secrets set ${name}`
+      );
+    }
+    values.set(name, value);
+  }
+  if (values.size === 0) {
+    return [];
+  }
+
+  await sshExec(
+    `${shellCommand(["mkdir", "-p", secretsDir])} && ${shellCommand([
+      "chmod",
+      "700",
+      secretsDir,
+    ])}`,
+    getSSHOptions(config, { agentForward: true })
+  );
+
+  // Compare checksums, the values themselves don't leave the VPS (files
+  // owned by a container user are only readable through sudo)
+  const checksum = shellCommand(["sha256sum", "--", ...values.keys()]);
+  const checksums = await sshExecQuiet(
+    `cd ${shellQuote(secretsDir)} && ` +
+      `{ ${checksum} 2>/dev/null || sudo -n ${checksum} 2>/dev/null; }`,
+    getSSHOptions(config, { agentForward: true })
+  );
+  const remote = new Map<string, string>();
+  for (const line of checksums.stdout.split("\n")) {
+    const match = line.match(/^([0-9a-f]{64})\s+\*?(.+)$/);
+    if (match?.[1] && match[2]) {
+      remote.set(match[2], match[1]);
+    }
+  }
+
+  const replaced: string[] = [];
+  for (const [name, value] of values) {
+    const digest = createHash("sha256").update(value).digest("hex");
+    if (remote.get(name) === digest) {
+      continue;
+    }
+
+    const path = `${secretsDir}/${name}`;
+    // The old file is read-only
+    await sshExec(
+      shellCommand(["rm", "-f", path]),
+      getSSHOptions(config, { agentForward: true })
+    );
+    const result = await uploadContent(
+      value,
+      path,
+      getSSHOptions(config, { agentForward: true }),
+      { mode: "400", owner: owners[name] }
+    );
+    if (!result.success) {
+      throw new Error(`Failed to upload secret '${name}': ${result.stderr}`);
+    }
+    if (remote.has(name)) {
+      replaced.push(name);
+    }
+  }
+  return replaced;
+}
@@ -0,0 +1,199 @@
+import type { SSHOptions, SSHResult } from "./types.js";
+
+/**
+ * Options for running a local process
+ */
+export interface RunProcessOptions
+  extends Pick<
+    SSHOptions,
+    | "stream"
+    | "onStdoutLine"
+    | "onStderrLine"
+    | "timeout"
+    | "tty"
+    | "stdinFile"
+    | "stdoutFile"
+  > {
+  cwd?: string;
+  env?: Record<string, string | undefined>;
+  stdinContent?: string;
+}
+
+// Grace period between SIGTERM and SIGKILL for timed out processes
+const KILL_GRACE_MS = 2000;
+
+/**
+ * Read a process output stream to the end
+ * Optionally forwards chunks live and reports every complete line
+ */
+async function readOutput(
+  stream: ReadableStream<Uint8Array>,
+  passthrough?: NodeJS.WriteStream,
+  onLine?: (line: string) => void
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let output = "";
+  let pending = "";
+
+  for await (const chunk of stream) {
+    const text = decoder.decode(chunk, { stream: true });
+    output += text;
+
+    if (passthrough) {
+      passthrough.write(text);
+    }
+
+    if (onLine) {
+      pending += text;
+      // Carriage returns end a line too (progress output redraws lines)
+      const lines = pending.split(/\r\n|\r|\n/);
+      pending = lines.pop() ?? "";
+      for (const line of lines) {
+        onLine(line);
+      }
+    }
+  }
+
+  const rest = decoder.decode();
+  output += rest;
+  pending += rest;
+  if (onLine && pending) {
+    onLine(pending);
+  }
+
+  return output;
+}
+
+/**
+ * Replay captured output as if it was produced live
+ * Used by transports that don't run a real process
+ */
+export function replayOutput(
+  result: SSHResult,
+  options: RunProcessOptions
+): void {
+  const streams = [
+    [result.stdout, process.stdout, options.onStdoutLine],
+    [result.stderr, process.stderr, options.onStderrLine],
+  ] as const;
+
+  for (const [output, passthrough, onLine] of streams) {
+    if (!output) continue;
+    if (options.stream) {
+      passthrough.write(`${output}\n`);
+    }
+    if (onLine) {
+      output.split("\n").forEach((line) => onLine(line));
+    }
+  }
+}
+
+/**
+ * Run a process attached to the local terminal (stdin, stdout and stderr)
+ * Ctrl-C is left to the process, e.g. to interrupt a command in a remote
+ * shell; resizes reach it through the shared terminal
+ */
+async function runAttachedProcess(
+  argv: string[],
+  options: RunProcessOptions
+): Promise<SSHResult> {
+  const ignoreInterrupt = (): void => {};
+  process.on("SIGINT", ignoreInterrupt);
+
+  try {
+    const proc = Bun.spawn(argv, {
+      cwd: options.cwd,
+      env: options.env,
+      stdin: "inherit",
+      stdout: "inherit",
+      stderr: "inherit",
+    });
+    const exitCode = await proc.exited;
+
+    return { stdout: "", stderr: "", exitCode, success: exitCode === 0 };
+  } finally {
+    process.off("SIGINT", ignoreInterrupt);
+  }
+}
+
+/**
+ * Run a local process and collect its output into an SSHResult
+ * Spawn errors are reported as a failed result instead of being thrown;
+ * a process running longer than options.timeout seconds is killed
+ */
+export async function runProcess(
+  argv: string[],
+  options: RunProcessOptions = {}
+): Promise<SSHResult> {
+  try {
+    if (options.tty) {
+      return await runAttachedProcess(argv, options);
+    }
+
+    const proc = Bun.spawn(argv, {
+      cwd: options.cwd,
+      env: options.env,
+      // Files are streamed as-is (binary safe) instead of being buffered
+      stdin: options.stdinFile ? Bun.file(options.stdinFile) : "pipe",
+      stdout: options.stdoutFile ? Bun.file(options.stdoutFile) : "pipe",
+      stderr: "pipe",
+    });
+
+    // Write content to stdin if provided (stdin is a pipe without stdinFile)
+    if (typeof proc.stdin === "object") {
+      if (options.stdinContent !== undefined) {
+        proc.stdin.write(options.stdinContent);
+      }
+      proc.stdin.end();
+    }
+
+    // Kill hung processes (SIGKILL when SIGTERM is ignored)
+    let timedOut = false;
+    const timers: Timer[] = [];
+    if (options.timeout) {
+      timers.push(
+        setTimeout(() => {
+          timedOut = true;
+          proc.kill("SIGTERM");
+          timers.push(setTimeout(() => proc.kill("SIGKILL"), KILL_GRACE_MS));
+        }, options.timeout * 1000)
+      );
+    }
+
+    // Read output while the command runs (live when streaming)
+    const [stdout, stderr] = await Promise.all([
+      typeof proc.stdout === "object"
+        ? readOutput(
+            proc.stdout,
+            options.stream ? process.stdout : undefined,
+            options.onStdoutLine
+          )
+        : "",
+      readOutput(
+        proc.stderr,
+        options.stream ? process.stderr : undefined,
+        options.onStderrLine
+      ),
+    ]);
+
+    // Wait for process to complete
+    const exitCode = await proc.exited;
+    timers.forEach((timer) => clearTimeout(timer));
+
+    return {
+      stdout: stdout.trim(),
+      stderr: stderr.trim(),
+      exitCode,
+      success: exitCode === 0 && !timedOut,
+      timedOut: timedOut || undefined,
+    };
+  } catch (error) {
+    // Handle spawn errors
+    return {
+      stdout: "",
+      stderr: error instanceof Error ? error.message : String(error),
+      exitCode: 1,
+      success: false,
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  downloadContent,
+  setTransport,
+  shellCommand,
+  shellQuote,
+  sshExec,
+  uploadContent,
+} from "./ssh.js";
+import {
+  createLocalTransport,
+  createRecordingTransport,
+  createReplayTransport,
+} from "./transport.js";
+import { SSHRemoteExitError } from "./errors.js";
+import type { SSHOptions } from "./types.js";
+
+const options: SSHOptions = { host: "vps", user: "deploy", retry: false };
+
+afterEach(() => {
+  setTransport(null);
+});
+
+describe("shellQuote", () => {
+  test("leaves safe arguments as they are", () => {
+    expect(shellQuote("docker")).toBe("docker");
+    expect(shellQuote("/home/deploy/my-app/docker-compose.yml")).toBe(
+      "/home/deploy/my-app/docker-compose.yml"
+    );
+    expect(shellQuote("user@host:22")).toBe("user@host:22");
+  });
+
+  test("quotes arguments with shell syntax", () => {
+    expect(shellQuote("")).toBe("''");
+    expect(shellQuote("a b")).toBe("'a b'");
+    expect(shellQuote("$HOME")).toBe("'$HOME'");
+    expect(shellQuote("a;rm -rf /")).toBe("'a;rm -rf /'");
+  });
+
+  test("escapes single quotes", () => {
+    expect(shellQuote("it's")).toBe(`'it'\\''s'`);
+  });
+});
+
+describe("shellCommand", () => {
+  test("quotes every argument", () => {
+    expect(shellCommand(["echo", "a b", "$(id)", "c"])).toBe(
+      "echo 'a b' '$(id)' c"
+    );
+  });
+
+  test("arguments reach the command unchanged", async () => {
+    const root = mkdtempSync(join(tmpdir(), "vps-test-"));
+    try {
+      setTransport(createLocalTransport(root));
+      const args = ["a b", "it's", "$HOME", "`id`", "*", "\\n"];
+      const result = await sshExec(
+        shellCommand(["printf", "%s\\n", ...args]),
+        options
+      );
+      expect(result.stdout.trim().split("\n")).toEqual(args);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("local transport", () => {
+  test("runs commands and transfers files inside the sandbox", async () => {
+    const root = mkdtempSync(join(tmpdir(), "vps-test-"));
+    try {
+      setTransport(createLocalTransport(root));
+
+      const home = await sshExec("echo $HOME", options);
+      expect(home.stdout.trim()).toBe(root);
+
+      const upload = await uploadContent("hello\n", "app/greeting", options, {
+        mode: "600",
+      });
+      expect(upload.success).toBe(true);
+      expect(readFileSync(join(root, "app/greeting"), "utf8")).toBe("hello\n");
+      expect(await downloadContent("app/greeting", options)).toBe("hello\n");
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test("passes stdin content to the command", async () => {
+    const root = mkdtempSync(join(tmpdir(), "vps-test-"));
+    try {
+      setTransport(createLocalTransport(root));
+      const result = await sshExec("tr a-z A-Z", options, "shout\n");
+      expect(result.stdout.trim()).toBe("SHOUT");
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("replay transport", () => {
+  test("replays recorded results in order", async () => {
+    const replay = createReplayTransport([
+      {
+        command: "echo $HOME",
+        result: {
+          stdout: "/home/deploy",
+          stderr: "",
+          exitCode: 0,
+          success: true,
+        },
+      },
+      {
+        command: "false",
+        result: { stdout: "", stderr: "", exitCode: 1, success: false },
+      },
+    ]);
+    setTransport(replay);
+
+    const home = await sshExec("echo $HOME", options);
+    expect(home.stdout).toBe("/home/deploy");
+
+    const failed = await sshExec("false", options);
+    expect(failed.success).toBe(false);
+    expect(failed.error).toBeInstanceOf(SSHRemoteExitError);
+    expect(replay.pending()).toEqual([]);
+  });
+
+  test("writes the recorded stdout file of a command", async () => {
+    const root = mkdtempSync(join(tmpdir(), "vps-test-"));
+    try {
+      const recording = createRecordingTransport(createLocalTransport(root));
+      setTransport(recording);
+      await sshExec("printf 'archive'", {
+        ...options,
+        stdoutFile: join(root, "recorded.tar.gz"),
+      });
+
+      setTransport(createReplayTransport(recording.calls));
+      const stdoutFile = join(root, "out", "replayed.tar.gz");
+      const result = await sshExec("printf 'archive'", {
+        ...options,
+        stdoutFile,
+      });
+      expect(result.success).toBe(true);
+      expect(readFileSync(stdoutFile, "utf8")).toBe("archive");
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects commands that differ from the recording", async () => {
+    setTransport(
+      createReplayTransport([
+        {
+          command: "docker compose ps",
+          result: { stdout: "", stderr: "", exitCode: 0, success: true },
+        },
+      ])
+    );
+
+    await expect(sshExec("docker compose down", options)).rejects.toThrow(
+      "Unexpected remote command"
+    );
+  });
+});
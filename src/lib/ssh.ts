@@ -1,4 +1,173 @@
-import type { SSHOptions, SSHResult } from "./types.js";
+import type {
+  SSHOptions,
+  SSHResult,
+  RetryPolicy,
+  Transport,
+  FileTransfer,
+  TransferOptions,
+  TransferProgress,
+} from "./types.js";
+import { runProcess } from "./spawn.js";
+import { log } from "./logger.js";
+import {
+  createLocalTransport,
+  createContainerTransport,
+  createRecordingTransport,
+  createReplayTransport,
+  loadRecording,
+} from "./transport.js";
+import {
+  hostKeyOptions,
+  isHostKeyFailure,
+  describeHostKeyFailure,
+} from "./hostkeys.js";
+import {
+  SSHConnectionError,
+  SSHHostKeyError,
+  createSSHError,
+} from "./errors.js";
+import { chmodSync, mkdtempSync, rmSync, statSync } from "fs";
+import { tmpdir, constants } from "os";
+import { join } from "path";
+
+// Directory holding the ControlMaster sockets of this CLI run
+let controlDir: string | null = null;
+
+// Targets (user@host) that may have a ControlMaster running
+const controlTargets = new Set<string>();
+
+// Hosts (user@host) found without rsync, files are transferred with cat
+const hostsWithoutRsync = new Set<string>();
+
+// Handler of a command that ends on Ctrl-C itself (see handleInterrupt)
+let interruptHandler: (() => void) | null = null;
+
+/**
+ * Get (and create on first use) the ControlMaster socket directory
+ * Registers cleanup so master connections don't outlive the CLI
+ */
+function getControlDir(): string {
+  if (!controlDir) {
+    // Keep the path short: unix socket paths are limited to ~104 characters
+    controlDir = mkdtempSync(join(tmpdir(), "vps-"));
+
+    process.once("exit", closeSSHConnections);
+    for (const signal of ["SIGINT", "SIGTERM", "SIGHUP"] as const) {
+      process.on(signal, () => {
+        if (signal === "SIGINT" && interruptHandler) {
+          return;
+        }
+        closeSSHConnections();
+        process.exit(128 + constants.signals[signal]);
+      });
+    }
+  }
+  return controlDir;
+}
+
+/**
+ * Build connection multiplexing arguments
+ * The first command to a host starts a ControlMaster, subsequent commands
+ * reuse its connection instead of doing a full SSH handshake
+ */
+function buildMultiplexArgs(options: SSHOptions): string[] {
+  const dir = getControlDir();
+  controlTargets.add(`${options.user}@${options.host}`);
+
+  return [
+    "-o",
+    "ControlMaster=auto",
+    "-o",
+    `ControlPath=${join(dir, "%C")}`,
+    "-o",
+    "ControlPersist=60",
+  ];
+}
+
+/**
+ * Let Ctrl-C end the running remote command instead of the CLI, e.g. to
+ * stop following logs: ssh (or the local process) gets the signal too, so
+ * the call returns and the command can finish normally
+ * Returns a function that restores the default (exit on Ctrl-C)
+ */
+export function handleInterrupt(handler: () => void): () => void {
+  const listener = () => handler();
+  interruptHandler = handler;
+  process.on("SIGINT", listener);
+
+  return () => {
+    process.off("SIGINT", listener);
+    if (interruptHandler === handler) {
+      interruptHandler = null;
+    }
+  };
+}
+
+/**
+ * Close all ControlMaster connections opened by this CLI run
+ * Called automatically when the process exits
+ */
+export function closeSSHConnections(): void {
+  if (!controlDir) {
+    return;
+  }
+
+  for (const target of controlTargets) {
+    try {
+      Bun.spawnSync(
+        [
+          "ssh",
+          "-o",
+          `ControlPath=${join(controlDir, "%C")}`,
+          "-O",
+          "exit",
+          target,
+        ],
+        { stdout: "ignore", stderr: "ignore" }
+      );
+    } catch {
+      // Master may already be gone
+    }
+  }
+  controlTargets.clear();
+
+  rmSync(controlDir, { recursive: true, force: true });
+  controlDir = null;
+}
+
+/**
+ * Quote a single argument for the remote POSIX shell
+ * Arguments made of safe characters only are left as-is for readability
+ */
+export function shellQuote(arg: string): string {
+  if (/^[A-Za-z0-9_\/.,:@+-]+$/.test(arg)) {
+    return arg;
+  }
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build a remote command line from an argv array
+ * Every argument is quoted, so values never get interpreted by the shell
+ */
+export function shellCommand(argv: string[]): string {
+  return argv.map(shellQuote).join(" ");
+}
+
+/**
+ * Build a remote command line that runs an argv array inside a directory
+ */
+export function shellCommandIn(dir: string, argv: string[]): string {
+  return `cd ${shellQuote(dir)} && ${shellCommand(argv)}`;
+}
+
+/**
+ * SSH options that route the connection through one or more jump hosts
+ * Each hop connects with the user's own ssh config and known_hosts
+ */
+export function proxyJumpOptions(hops?: string[]): string[] {
+  return hops && hops.length > 0 ? ["-o", `ProxyJump=${hops.join(",")}`] : [];
+}
 
 /**
  * Build SSH command arguments from options
@@ -6,17 +175,16 @@ import type { SSHOptions, SSHResult } from "./types.js";
 function buildSSHArgs(options: SSHOptions): string[] {
   const args: string[] = [];
 
-  // Base SSH options (matching audit script defaults)
+  // Base SSH options - LogLevel=ERROR suppresses banners and informational
+  // messages but keeps connection errors (e.g. host key failures) visible
   args.push("-o", "LogLevel=ERROR");
-  args.push("-o", "StrictHostKeyChecking=no");
-  args.push("-o", "UserKnownHostsFile=/dev/null");
 
-  // Disable pseudo-terminal allocation to suppress MOTD and interactive prompts
-  args.push("-T");
+  // Verify the host key against the pinned store (trust on first provision)
+  args.push(...hostKeyOptions(options.host));
 
-  // Quiet mode - suppresses MOTD, banners, and most informational messages
-  // This is the standard SSH way to run non-interactive commands cleanly
-  args.push("-q");
+  // Disable pseudo-terminal allocation to suppress MOTD and interactive
+  // prompts, unless the command is interactive (-tt even without local TTY)
+  args.push(options.tty ? "-tt" : "-T");
 
   // Agent forwarding (for compose script)
   if (options.agentForward) {
@@ -28,6 +196,14 @@ function buildSSHArgs(options: SSHOptions): string[] {
     args.push("-o", "BatchMode=yes");
   }
 
+  // Jump through bastion hosts
+  args.push(...proxyJumpOptions(options.proxyJump));
+
+  // Connection reuse (enabled unless explicitly disabled)
+  if (options.multiplex !== false) {
+    args.push(...buildMultiplexArgs(options));
+  }
+
   // Connect timeout
   if (options.connectTimeout) {
     args.push("-o", `ConnectTimeout=${options.connectTimeout}`);
@@ -38,14 +214,331 @@ function buildSSHArgs(options: SSHOptions): string[] {
     args.push(...options.additionalOpts);
   }
 
-  // Target host
-  args.push(`${options.user}@${options.host}`);
+  return args;
+}
+
+/**
+ * Build rsync arguments for a file transfer over SSH
+ * --protect-args keeps remote paths away from the remote shell
+ */
+function buildRsyncArgs(transfer: FileTransfer, options: SSHOptions): string[] {
+  const remote = `${options.user}@${options.host}:`;
+  const args = [
+    "rsync",
+    "--protect-args",
+    "--perms",
+    "--times",
+    "--info=progress2",
+    "--no-inc-recursive",
+    "-e",
+    shellCommand(["ssh", ...buildSSHArgs(options)]),
+  ];
+
+  if (transfer.recursive) {
+    args.push("--recursive", "--links");
+  }
+  if (transfer.delete) {
+    args.push("--delete");
+  }
+  if (transfer.mode) {
+    args.push(`--chmod=F${transfer.mode}`);
+  }
+  if (transfer.owner && transfer.direction === "upload") {
+    args.push(`--chown=${transfer.owner}`, "--rsync-path=sudo rsync");
+  }
+
+  // A trailing slash transfers the contents of a directory
+  const source = transfer.recursive
+    ? `${transfer.source.replace(/\/+$/, "")}/`
+    : transfer.source;
+
+  if (transfer.direction === "upload") {
+    args.push(source, `${remote}${transfer.destination}`);
+  } else {
+    args.push(`${remote}${source}`, transfer.destination);
+  }
 
   return args;
 }
 
+/**
+ * Parse an rsync --info=progress2 line, e.g. "1,234,567  45%  1.23MB/s  0:00:01"
+ */
+function parseRsyncProgress(line: string): TransferProgress | null {
+  const match = line.match(/^\s*([\d,]+)\s+(\d+)%\s+(\S+\/s)/);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+  return {
+    bytes: parseInt(match[1].replace(/,/g, ""), 10),
+    percent: parseInt(match[2], 10),
+    rate: match[3],
+  };
+}
+
+/**
+ * Check whether rsync failed because it isn't installed on the remote host
+ * (e.g. a VPS provisioned before rsync was part of the provisioning)
+ */
+function isRemoteRsyncMissing(result: SSHResult): boolean {
+  return (
+    !result.success &&
+    /rsync: (?:command )?not found|remote command not found/.test(result.stderr)
+  );
+}
+
+/**
+ * Transfer a single file with cat over ssh, for hosts without rsync
+ * Uploads are written to a temporary file that then replaces the target
+ */
+async function transferWithCat(
+  transfer: FileTransfer,
+  options: SSHOptions
+): Promise<SSHResult> {
+  const target = `${options.user}@${options.host}`;
+
+  if (transfer.direction === "download") {
+    const result = await runProcess(
+      [
+        "ssh",
+        ...buildSSHArgs(options),
+        target,
+        shellCommand(["cat", "--", transfer.source]),
+      ],
+      { timeout: options.timeout, stdoutFile: transfer.destination }
+    );
+    if (result.success && transfer.mode) {
+      chmodSync(transfer.destination, parseInt(transfer.mode, 8));
+    }
+    if (result.success) {
+      const bytes = statSync(transfer.destination).size;
+      transfer.onProgress?.({ bytes, percent: 100 });
+    }
+    return checkResult(result, options);
+  }
+
+  const mode =
+    transfer.mode ?? (statSync(transfer.source).mode & 0o777).toString(8);
+  const temp = `${transfer.destination}.vps-upload`;
+  const steps = [
+    `cat > ${shellQuote(temp)}`,
+    shellCommand(["chmod", mode, temp]),
+    ...(transfer.owner ? [shellCommand(["chown", transfer.owner, temp])] : []),
+    shellCommand(["mv", "-f", temp, transfer.destination]),
+  ].join(" && ");
+
+  const result = await runProcess(
+    [
+      "ssh",
+      ...buildSSHArgs(options),
+      target,
+      transfer.owner ? shellCommand(["sudo", "sh", "-c", steps]) : steps,
+    ],
+    { timeout: options.timeout, stdinFile: transfer.source }
+  );
+  if (result.success) {
+    const bytes = statSync(transfer.source).size;
+    transfer.onProgress?.({ bytes, percent: 100 });
+  }
+  return checkResult(result, options);
+}
+
+/**
+ * Attach the typed error of a failed ssh or rsync run to its result
+ * Throws a descriptive error when ssh refused the pinned host key
+ */
+async function checkResult(
+  result: SSHResult,
+  options: SSHOptions
+): Promise<SSHResult> {
+  if (result.exitCode === 255 && isHostKeyFailure(result.stderr)) {
+    throw new SSHHostKeyError(
+      await describeHostKeyFailure(options),
+      options.host,
+      result
+    );
+  }
+
+  if (!result.success) {
+    result.error = createSSHError(result, options, true);
+  }
+  return result;
+}
+
+/**
+ * Transport running commands on the remote host over SSH
+ */
+export const sshTransport: Transport = {
+  name: "ssh",
+  exec: async (command, options, stdinContent) => {
+    // Always pass command as argument to SSH
+    const result = await runProcess(
+      [
+        "ssh",
+        ...buildSSHArgs(options),
+        `${options.user}@${options.host}`,
+        command,
+      ],
+      {
+        ...options,
+        stdinContent,
+      }
+    );
+
+    // Refuse loudly when the host key doesn't match the pinned one
+    return checkResult(result, options);
+  },
+  transfer: async (transfer, options) => {
+    const target = `${options.user}@${options.host}`;
+    if (hostsWithoutRsync.has(target) && !transfer.recursive) {
+      return transferWithCat(transfer, options);
+    }
+
+    const result = await runProcess(buildRsyncArgs(transfer, options), {
+      timeout: options.timeout,
+      onStdoutLine: (line) => {
+        const progress = parseRsyncProgress(line);
+        if (progress) {
+          transfer.onProgress?.(progress);
+        }
+      },
+    });
+
+    if (isRemoteRsyncMissing(result)) {
+      if (transfer.recursive) {
+        result.stderr =
+          `${result.stderr}\nrsync is not installed on ${options.host}, ` +
+          `install it there with: sudo apt-get install -y rsync`;
+        return checkResult(result, options);
+      }
+
+      if (!hostsWithoutRsync.has(target)) {
+        hostsWithoutRsync.add(target);
+        log.warn(
+          `rsync is not installed on ${options.host}, transferring files ` +
+            `with cat (install rsync there for faster transfers)`
+        );
+      }
+      return transferWithCat(transfer, options);
+    }
+
+    return checkResult(result, options);
+  },
+};
+
+// Transport used by sshExec (created from the environment on first use)
+let activeTransport: Transport | null = null;
+
+/**
+ * Create the transport selected through the environment
+ * VPS_TRANSPORT=ssh (default), local (sandbox in VPS_LOCAL_ROOT) or
+ * container:<name>; VPS_TRANSPORT_RECORD / VPS_TRANSPORT_REPLAY point to a
+ * recording file to write or to replay instead of executing anything
+ */
+function createTransportFromEnv(): Transport {
+  if (process.env.VPS_TRANSPORT_REPLAY) {
+    return createReplayTransport(
+      loadRecording(process.env.VPS_TRANSPORT_REPLAY)
+    );
+  }
+
+  const kind = process.env.VPS_TRANSPORT || "ssh";
+  let transport: Transport;
+
+  if (kind === "ssh") {
+    transport = sshTransport;
+  } else if (kind === "local") {
+    transport = createLocalTransport(
+      process.env.VPS_LOCAL_ROOT || join(tmpdir(), "vps-sandbox")
+    );
+  } else if (kind.startsWith("container:")) {
+    transport = createContainerTransport(kind.slice("container:".length));
+  } else {
+    throw new Error(`Unknown VPS_TRANSPORT: ${kind}`);
+  }
+
+  const recordPath = process.env.VPS_TRANSPORT_RECORD;
+  if (recordPath) {
+    const recording = createRecordingTransport(transport);
+    process.once("exit", () => recording.save(recordPath));
+    return recording;
+  }
+
+  return transport;
+}
+
+/**
+ * Get the transport used to execute remote commands
+ */
+export function getTransport(): Transport {
+  if (!activeTransport) {
+    activeTransport = createTransportFromEnv();
+  }
+  return activeTransport;
+}
+
+/**
+ * Replace the transport used to execute remote commands
+ * Pass null to go back to the transport selected through the environment
+ */
+export function setTransport(transport: Transport | null): void {
+  activeTransport = transport;
+}
+
+/**
+ * Get the retry policy of a call
+ * Defaults to VPS_SSH_RETRIES retries (2) starting at VPS_SSH_RETRY_DELAY ms (1000)
+ */
+function getRetryPolicy(options: SSHOptions): RetryPolicy {
+  if (options.retry === false) {
+    return { retries: 0 };
+  }
+  return (
+    options.retry ?? {
+      retries: Number(process.env.VPS_SSH_RETRIES ?? 2),
+      delay: Number(process.env.VPS_SSH_RETRY_DELAY ?? 1000),
+    }
+  );
+}
+
+/**
+ * Run a transport call, retrying transient connection failures with backoff
+ * Every failed result gets a typed error (see errors.ts)
+ */
+async function runWithRetry(
+  options: SSHOptions,
+  run: () => Promise<SSHResult>
+): Promise<SSHResult> {
+  const policy = getRetryPolicy(options);
+  let delay = policy.delay ?? 1000;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await run();
+    if (!result.success && !result.error) {
+      result.error = createSSHError(result, options, false);
+    }
+
+    const retryable =
+      result.error instanceof SSHConnectionError && result.error.transient;
+    if (!retryable || attempt >= policy.retries) {
+      return result;
+    }
+
+    if (!options.quiet) {
+      log.warn(
+        `${result.error?.message}, retrying in ${delay / 1000}s ` +
+          `(${attempt + 1}/${policy.retries})`
+      );
+    }
+    await Bun.sleep(delay);
+    delay = Math.min(delay * (policy.factor ?? 2), policy.maxDelay ?? 30_000);
+  }
+}
+
 /**
  * Execute SSH command on remote host
+ * Failed results carry a typed error in result.error; transient connection
+ * failures are retried according to options.retry
  *
  * @param command - Command to execute (can be a string or array of strings for shell script)
  * @param options - SSH connection options
@@ -56,61 +549,149 @@ export async function sshExec(
   options: SSHOptions,
   stdinContent?: string
 ): Promise<SSHResult> {
-  const sshArgs = buildSSHArgs(options);
-
   // If command is an array, join with newlines (for multi-line scripts)
   const commandStr = Array.isArray(command) ? command.join("\n") : command;
 
-  try {
-    // Always pass command as argument to SSH
-    const proc = Bun.spawn(["ssh", ...sshArgs, commandStr], {
-      stdin: "pipe",
-      stdout: "pipe",
-      stderr: "pipe",
-    });
+  return runWithRetry(options, () =>
+    getTransport().exec(commandStr, options, stdinContent)
+  );
+}
 
-    // Write content to stdin if provided
-    if (stdinContent !== undefined) {
-      proc.stdin.write(stdinContent);
-    }
-    proc.stdin.end();
+/**
+ * Upload a local file to the remote host
+ * Keeps the file mode (or applies transferOptions.mode) and modification time
+ */
+export async function uploadFile(
+  localPath: string,
+  remotePath: string,
+  options: SSHOptions,
+  transferOptions: TransferOptions = {}
+): Promise<SSHResult> {
+  return runWithRetry(options, () =>
+    getTransport().transfer(
+      {
+        ...transferOptions,
+        direction: "upload",
+        source: localPath,
+        destination: remotePath,
+      },
+      options
+    )
+  );
+}
+
+/**
+ * Download a remote file to the local machine
+ */
+export async function downloadFile(
+  remotePath: string,
+  localPath: string,
+  options: SSHOptions,
+  transferOptions: TransferOptions = {}
+): Promise<SSHResult> {
+  return runWithRetry(options, () =>
+    getTransport().transfer(
+      {
+        ...transferOptions,
+        direction: "download",
+        source: remotePath,
+        destination: localPath,
+      },
+      options
+    )
+  );
+}
+
+/**
+ * Synchronise the contents of a local directory to a remote directory
+ * Pass transferOptions.delete to remove remote files missing locally
+ */
+export async function syncDir(
+  localDir: string,
+  remoteDir: string,
+  options: SSHOptions,
+  transferOptions: TransferOptions = {}
+): Promise<SSHResult> {
+  return runWithRetry(options, () =>
+    getTransport().transfer(
+      {
+        ...transferOptions,
+        direction: "upload",
+        source: localDir,
+        destination: remoteDir,
+        recursive: true,
+      },
+      options
+    )
+  );
+}
 
-    // Wait for process to complete
-    const exitCode = await proc.exited;
-    const stdout = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
+/**
+ * Upload text content as a remote file (through a temporary local file)
+ */
+export async function uploadContent(
+  content: string,
+  remotePath: string,
+  options: SSHOptions,
+  transferOptions: TransferOptions = {}
+): Promise<SSHResult> {
+  const dir = mkdtempSync(join(tmpdir(), "vps-upload-"));
+  try {
+    const localPath = join(dir, "content");
+    await Bun.write(localPath, content);
+    return await uploadFile(localPath, remotePath, options, transferOptions);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
 
-    return {
-      stdout: stdout.trim(),
-      stderr: stderr.trim(),
-      exitCode,
-      success: exitCode === 0,
-    };
-  } catch (error) {
-    // Handle spawn errors
-    return {
-      stdout: "",
-      stderr: error instanceof Error ? error.message : String(error),
-      exitCode: 1,
-      success: false,
-    };
+/**
+ * Download a remote file and return its text content (throw on error)
+ */
+export async function downloadContent(
+  remotePath: string,
+  options: SSHOptions
+): Promise<string> {
+  const dir = mkdtempSync(join(tmpdir(), "vps-download-"));
+  try {
+    const localPath = join(dir, "content");
+    const result = await downloadFile(remotePath, localPath, options);
+    if (!result.success) {
+      throw new Error(`Download of ${remotePath} failed: ${result.stderr}`);
+    }
+    return await Bun.file(localPath).text();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
   }
 }
 
+/**
+ * Execute SSH command and forward its output live to the terminal
+ * Useful for long running commands; still resolves to the full SSHResult
+ */
+export async function sshExecStream(
+  command: string | string[],
+  options: SSHOptions,
+  stdinContent?: string
+): Promise<SSHResult> {
+  return sshExec(command, { ...options, stream: true }, stdinContent);
+}
+
 /**
  * Execute SSH command quietly (suppress output)
  * Useful for checking if something exists or succeeds without output
  */
 export async function sshExecQuiet(
   command: string | string[],
-  options: SSHOptions
+  options: SSHOptions,
+  stdinContent?: string
 ): Promise<SSHResult> {
   const quietOptions = { ...options, quiet: true };
-  return sshExec(command, quietOptions);
+  return sshExec(command, quietOptions, stdinContent);
 }
 
 /**
- * Execute SSH command and return only stdout (throw on error)
+ * Execute SSH command and return only stdout (throw the typed error on error)
  * Useful when you need the output and want to fail fast on errors
  */
 export async function sshExecStdout(
@@ -119,7 +700,7 @@ export async function sshExecStdout(
 ): Promise<string> {
   const result = await sshExec(command, options);
   if (!result.success) {
-    throw new Error(`SSH command failed: ${result.stderr}`);
+    throw result.error ?? new Error(`SSH command failed: ${result.stderr}`);
   }
   return result.stdout;
 }
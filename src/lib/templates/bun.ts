@@ -0,0 +1,34 @@
+import type { ServiceTemplate, TemplateContext } from "../types.js";
+
+/**
+ * Get the app directory of a Bun service (mounted as /app)
+ */
+function getAppDir(context: TemplateContext): string {
+  return `${context.projectDir}/apps/${context.alias}`;
+}
+
+/**
+ * Bun app running its sources from apps/<alias> in watch mode
+ */
+export const bunTemplate: ServiceTemplate = {
+  name: "bun",
+  description: "Bun app, sources in apps/<alias> (watch mode)",
+  service: (context) => ({
+    image: "oven/bun:latest",
+    container_name: context.alias,
+    userns_mode: "host",
+    working_dir: "/app",
+    volumes: [`${getAppDir(context)}:/app`, `/app/node_modules`],
+    command: ["bun", "run", "--watch", "src/index.ts"],
+    networks: ["default"],
+    restart: "unless-stopped",
+    environment: {
+      NODE_ENV: "development",
+    },
+  }),
+  directories: (context) => [getAppDir(context)],
+  hints: (context) => [
+    `Put the app sources in ${getAppDir(context)} or clone them with: ` +
+      `bin/git clone ${context.projectName} ${context.alias} <url>`,
+  ],
+};
@@ -0,0 +1,28 @@
+import { randomBytes } from "crypto";
+import type { TemplateContext } from "../types.js";
+
+/**
+ * Generate a random password for a service
+ * Hex only, so it is safe in URLs, shell commands and command line options
+ */
+export function generatePassword(bytes = 24): string {
+  return randomBytes(bytes).toString("hex");
+}
+
+/**
+ * Get the name of a generated secret of a service in the secrets vault
+ * Services list it under secrets: and compose add generates its value
+ */
+export function serviceSecretName(
+  context: Pick<TemplateContext, "projectName" | "alias">,
+  key: string
+): string {
+  return `${context.projectName}.${context.alias}.${key}`;
+}
+
+/**
+ * Get the path a secret is mounted at inside the containers using it
+ */
+export function secretMountPath(name: string): string {
+  return `/run/secrets/${name}`;
+}
@@ -0,0 +1,159 @@
+import type { ServiceTemplate } from "../types.js";
+import { getBinDir } from "../config.js";
+import { bunTemplate } from "./bun.js";
+import { mysqlTemplate } from "./mysql.js";
+import { postgresTemplate } from "./postgres.js";
+import { redisTemplate } from "./redis.js";
+import { proxyTemplate } from "./proxy.js";
+import { existsSync, readdirSync } from "fs";
+import { join, resolve } from "path";
+import { pathToFileURL } from "url";
+
+// Templates shipped with vps.js
+const builtinTemplates: ServiceTemplate[] = [
+  bunTemplate,
+  mysqlTemplate,
+  postgresTemplate,
+  redisTemplate,
+  proxyTemplate,
+];
+
+// Registered templates by name (built-in and custom, loaded on first use)
+let registry: Map<string, ServiceTemplate> | null = null;
+
+// Names of templates loaded from the templates directory
+const customTemplates = new Set<string>();
+
+/**
+ * Get the directory custom templates are loaded from
+ * VPS_TEMPLATES_DIR takes precedence over bin/templates
+ */
+export function getTemplatesDir(): string {
+  return process.env.VPS_TEMPLATES_DIR || join(getBinDir(), "templates");
+}
+
+/**
+ * Check that a module export looks like a service template
+ */
+function assertTemplate(value: unknown, file: string): ServiceTemplate {
+  const template = value as Partial<ServiceTemplate> | undefined;
+  if (
+    !template ||
+    typeof template.name !== "string" ||
+    !/^[a-z0-9][a-z0-9_-]*$/.test(template.name) ||
+    typeof template.service !== "function"
+  ) {
+    throw new Error(
+      `Invalid service template ${file}: expected a default export with ` +
+        `a lowercase name and a service() function`
+    );
+  }
+  return {
+    description: "",
+    ...template,
+  } as ServiceTemplate;
+}
+
+/**
+ * Load the custom templates (*.ts, *.js, *.mjs) of the templates directory
+ */
+async function loadCustomTemplates(): Promise<ServiceTemplate[]> {
+  const dir = resolve(getTemplatesDir());
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const files = readdirSync(dir)
+    .filter((file) => /\.(ts|js|mjs)$/.test(file) && !file.endsWith(".d.ts"))
+    .sort();
+
+  const templates: ServiceTemplate[] = [];
+  for (const file of files) {
+    const path = join(dir, file);
+    const module = (await import(pathToFileURL(path).href)) as {
+      default?: unknown;
+    };
+    templates.push(assertTemplate(module.default, path));
+  }
+  return templates;
+}
+
+/**
+ * Get all registered templates by name
+ * Custom templates override built-in templates with the same name
+ */
+export async function loadTemplates(): Promise<Map<string, ServiceTemplate>> {
+  if (!registry) {
+    registry = new Map();
+    for (const template of builtinTemplates) {
+      registry.set(template.name, template);
+    }
+    for (const template of await loadCustomTemplates()) {
+      registry.set(template.name, template);
+      customTemplates.add(template.name);
+    }
+  }
+  return registry;
+}
+
+/**
+ * Get a registered template by name (case insensitive)
+ */
+export async function getTemplate(
+  name: string
+): Promise<ServiceTemplate | undefined> {
+  return (await loadTemplates()).get(name.toLowerCase());
+}
+
+/**
+ * Check whether a template was loaded from the templates directory
+ */
+export function isCustomTemplate(name: string): boolean {
+  return customTemplates.has(name);
+}
+
+/**
+ * Resolve template parameters from key=value arguments
+ * Fills in defaults and throws on unknown or missing required parameters
+ */
+export function resolveTemplateParams(
+  template: ServiceTemplate,
+  args: string[]
+): Record<string, string> {
+  const declared = template.params ?? [];
+  const params: Record<string, string> = {};
+
+  for (const arg of args) {
+    const separator = arg.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`Invalid parameter '${arg}', expected key=value`);
+    }
+    const key = arg.slice(0, separator);
+    if (!declared.some((param) => param.name === key)) {
+      throw new Error(
+        `Unknown parameter '${key}' for service type '${template.name}'`
+      );
+    }
+    params[key] = arg.slice(separator + 1);
+  }
+
+  const missing: string[] = [];
+  for (const param of declared) {
+    if (params[param.name] === undefined) {
+      if (param.default === undefined) {
+        missing.push(param.name);
+      } else {
+        params[param.name] = param.default;
+      }
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required parameter(s) for service type '${template.name}': ` +
+        missing.map((name) => `${name}=<value>`).join(" ")
+    );
+  }
+
+  return params;
+}
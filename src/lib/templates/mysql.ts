@@ -0,0 +1,56 @@
+import type { ServiceTemplate } from "../types.js";
+import { secretMountPath, serviceSecretName } from "./credentials.js";
+
+/**
+ * MySQL database with a named data volume, only reachable from the VPS
+ * Its passwords are generated secrets of the vault
+ */
+export const mysqlTemplate: ServiceTemplate = {
+  name: "mysql",
+  description: "MySQL 8 database (port 3306 on 127.0.0.1)",
+  service: (context) => {
+    const { alias } = context;
+    const dbName = `${alias}_db`;
+    const rootPassword = serviceSecretName(context, "root_password");
+    const user = `${alias}_user`;
+    const password = serviceSecretName(context, "password");
+
+    return {
+      image: "mysql:8.0",
+      container_name: alias,
+      userns_mode: "host",
+      environment: {
+        MYSQL_ROOT_PASSWORD_FILE: secretMountPath(rootPassword),
+        MYSQL_DATABASE: dbName,
+        MYSQL_USER: user,
+        MYSQL_PASSWORD_FILE: secretMountPath(password),
+      },
+      // Read by the entrypoint as the mysql user, uid 999 on the VPS as well
+      // outside the user namespace remap
+      secrets: [rootPassword, password].map((source) => ({
+        source,
+        uid: "999",
+        gid: "999",
+      })),
+      volumes: [`${alias}_data:/var/lib/mysql`],
+      networks: ["default"],
+      restart: "unless-stopped",
+      ports: ["127.0.0.1:3306:3306"],
+      healthcheck: {
+        test: ["CMD", "mysqladmin", "ping", "-h", "localhost"],
+        interval: "10s",
+        timeout: "5s",
+        retries: 5,
+      },
+    };
+  },
+  volumes: ({ alias }) => [`${alias}_data`],
+  hints: (context) => [
+    `Show the passwords with: bin/secrets get ${serviceSecretName(
+      context,
+      "root_password"
+    )} (and ${serviceSecretName(context, "password")})`,
+    `Back up its databases with: bin/compose backup ${context.projectName} ` +
+      `${context.alias} (add --schedule daily for nightly backups)`,
+  ],
+};
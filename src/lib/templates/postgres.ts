@@ -0,0 +1,55 @@
+import type { ServiceTemplate } from "../types.js";
+import { secretMountPath, serviceSecretName } from "./credentials.js";
+
+/**
+ * PostgreSQL database with a named data volume, only reachable from the VPS
+ * Its password is a generated secret of the vault
+ */
+export const postgresTemplate: ServiceTemplate = {
+  name: "postgres",
+  description: "PostgreSQL 16 database (port 5432 on 127.0.0.1)",
+  params: [{ name: "port", description: "Port on 127.0.0.1", default: "5432" }],
+  service: (context) => {
+    const { alias, params } = context;
+    const dbName = `${alias}_db`;
+    const user = `${alias}_user`;
+    const password = serviceSecretName(context, "password");
+    const port = params.port ?? "5432";
+
+    if (!/^\d{1,5}$/.test(port)) {
+      throw new Error(`Invalid port '${port}'`);
+    }
+
+    return {
+      image: "postgres:16",
+      container_name: alias,
+      userns_mode: "host",
+      environment: {
+        POSTGRES_DB: dbName,
+        POSTGRES_USER: user,
+        POSTGRES_PASSWORD_FILE: secretMountPath(password),
+      },
+      // Read by the entrypoint as the postgres user, uid 999 on the VPS as well
+      // outside the user namespace remap
+      secrets: [{ source: password, uid: "999", gid: "999" }],
+      volumes: [`${alias}_data:/var/lib/postgresql/data`],
+      networks: ["default"],
+      restart: "unless-stopped",
+      ports: [`127.0.0.1:${port}:5432`],
+      healthcheck: {
+        test: ["CMD", "pg_isready", "-U", user, "-d", dbName],
+        interval: "10s",
+        timeout: "5s",
+        retries: 5,
+      },
+    };
+  },
+  volumes: ({ alias }) => [`${alias}_data`],
+  hints: (context) => [
+    `Connect from other services with: postgres://${context.alias}_user@${context.alias}:5432/${context.alias}_db`,
+    `Show the password with: bin/secrets get ${serviceSecretName(
+      context,
+      "password"
+    )}`,
+  ],
+};
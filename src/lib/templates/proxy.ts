@@ -0,0 +1,71 @@
+import type { ServiceTemplate, TemplateContext } from "../types.js";
+import {
+  PROXY_LABEL,
+  PROXY_PORTS,
+  getProxyDir,
+  renderCaddyfile,
+  serializeProxySettings,
+} from "../proxy.js";
+
+/**
+ * Get the config directory of the proxy (mounted as /etc/caddy)
+ */
+function getConfigDir(context: TemplateContext): string {
+  return getProxyDir(context.projectDir, context.alias);
+}
+
+/**
+ * Caddy reverse proxy, obtains certificates for routed domains automatically
+ * Routes are added with bin/compose route
+ */
+export const proxyTemplate: ServiceTemplate = {
+  name: "proxy",
+  description: "Caddy reverse proxy with automatic HTTPS (ports 80 and 443)",
+  params: [
+    { name: "email", description: "ACME account email", default: "" },
+    {
+      name: "acme_ca",
+      description:
+        "ACME directory URL, or internal for locally signed certificates",
+      default: "",
+    },
+    {
+      name: "acme_ca_root",
+      description: "CA certificate of the ACME directory (path in container)",
+      default: "",
+    },
+  ],
+  service: (context) => ({
+    image: "caddy:2-alpine",
+    container_name: context.alias,
+    labels: {
+      [PROXY_LABEL]: "caddy",
+    },
+    volumes: [
+      `${getConfigDir(context)}:/etc/caddy`,
+      `${context.alias}_data:/data`,
+      `${context.alias}_config:/config`,
+    ],
+    networks: ["default"],
+    restart: "unless-stopped",
+    ports: ["80:80", "443:443", "443:443/udp"],
+  }),
+  volumes: ({ alias }) => [`${alias}_data`, `${alias}_config`],
+  directories: (context) => [getConfigDir(context)],
+  files: (context) => {
+    const settings = {
+      email: context.params.email || undefined,
+      acmeCa: context.params.acme_ca || undefined,
+      acmeCaRoot: context.params.acme_ca_root || undefined,
+      routes: {},
+    };
+    return {
+      [`${getConfigDir(context)}/proxy.yml`]: serializeProxySettings(settings),
+      [`${getConfigDir(context)}/Caddyfile`]: renderCaddyfile(settings),
+    };
+  },
+  firewall: () => PROXY_PORTS,
+  hints: ({ projectName }) => [
+    `Route a domain to a service with: bin/compose route ${projectName} <alias> <domain> <port>`,
+  ],
+};
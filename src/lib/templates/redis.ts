@@ -0,0 +1,59 @@
+import type { ServiceTemplate } from "../types.js";
+import { secretMountPath, serviceSecretName } from "./credentials.js";
+
+/**
+ * Redis cache with AOF persistence on a named volume, only reachable from
+ * the VPS
+ * Its password is a generated secret of the vault, given to redis-server as
+ * configuration on stdin so it doesn't show up in its command line
+ */
+export const redisTemplate: ServiceTemplate = {
+  name: "redis",
+  description: "Redis 7 cache with AOF persistence (port 6379 on 127.0.0.1)",
+  params: [{ name: "port", description: "Port on 127.0.0.1", default: "6379" }],
+  service: (context) => {
+    const { alias, params } = context;
+    const password = serviceSecretName(context, "password");
+    const passwordFile = secretMountPath(password);
+    const port = params.port ?? "6379";
+
+    if (!/^\d{1,5}$/.test(port)) {
+      throw new Error(`Invalid port '${port}'`);
+    }
+
+    // "$$" is a literal "$" for compose, the shell reads the secret file
+    return {
+      image: "redis:7-alpine",
+      container_name: alias,
+      userns_mode: "host",
+      command: [
+        "sh",
+        "-c",
+        `exec docker-entrypoint.sh redis-server --appendonly yes - <<EOF\n` +
+          `requirepass $$(cat ${passwordFile})\nEOF`,
+      ],
+      secrets: [password],
+      volumes: [`${alias}_data:/data`],
+      networks: ["default"],
+      restart: "unless-stopped",
+      ports: [`127.0.0.1:${port}:6379`],
+      healthcheck: {
+        test: [
+          "CMD-SHELL",
+          `REDISCLI_AUTH="$$(cat ${passwordFile})" redis-cli ping | grep -q PONG`,
+        ],
+        interval: "10s",
+        timeout: "5s",
+        retries: 5,
+      },
+    };
+  },
+  volumes: ({ alias }) => [`${alias}_data`],
+  hints: (context) => [
+    `Connect from other services with: redis://:<password>@${context.alias}:6379`,
+    `Show the password with: bin/secrets get ${serviceSecretName(
+      context,
+      "password"
+    )}`,
+  ],
+};
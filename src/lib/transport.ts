@@ -0,0 +1,340 @@
+import type {
+  FileTransfer,
+  SSHResult,
+  Transport,
+  TransportCall,
+} from "./types.js";
+import { runProcess, replayOutput } from "./spawn.js";
+import {
+  chmodSync,
+  cpSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join, resolve } from "path";
+
+/**
+ * Describe a file transfer by its remote side
+ * Local paths (often temp files) are left out to keep recordings stable
+ */
+export function describeTransfer(transfer: FileTransfer): string {
+  return transfer.direction === "upload"
+    ? `upload -> ${transfer.destination}`
+    : `download <- ${transfer.source}`;
+}
+
+/**
+ * Apply a mode to a file, or to all files below a directory
+ */
+function chmodFiles(path: string, mode: string): void {
+  if (statSync(path).isDirectory()) {
+    for (const entry of readdirSync(path)) {
+      chmodFiles(join(path, entry), mode);
+    }
+  } else {
+    chmodSync(path, parseInt(mode, 8));
+  }
+}
+
+/**
+ * Get the total size of a file or directory
+ */
+function totalSize(path: string): number {
+  const stats = statSync(path);
+  if (!stats.isDirectory()) {
+    return stats.size;
+  }
+  return readdirSync(path).reduce(
+    (size, entry) => size + totalSize(join(path, entry)),
+    0
+  );
+}
+
+/**
+ * Copy a file or directory within the local filesystem
+ * Ownership is not changed: the sandbox is owned by the current user
+ */
+function copyLocal(
+  from: string,
+  to: string,
+  transfer: FileTransfer
+): SSHResult {
+  try {
+    if (transfer.delete) {
+      rmSync(to, { recursive: true, force: true });
+    }
+    mkdirSync(dirname(to), { recursive: true });
+    cpSync(from, to, {
+      recursive: !!transfer.recursive,
+      preserveTimestamps: true,
+      force: true,
+    });
+
+    if (transfer.mode) {
+      chmodFiles(to, transfer.mode);
+    }
+
+    transfer.onProgress?.({ bytes: totalSize(to), percent: 100 });
+    return { stdout: "", stderr: "", exitCode: 0, success: true };
+  } catch (error) {
+    return {
+      stdout: "",
+      stderr: error instanceof Error ? error.message : String(error),
+      exitCode: 1,
+      success: false,
+    };
+  }
+}
+
+/**
+ * Create a transport that runs commands with the local shell
+ * Commands run inside a sandbox directory which also acts as $HOME, so
+ * remote paths (e.g. the compose home) end up inside the sandbox
+ */
+export function createLocalTransport(root: string): Transport {
+  const sandbox = resolve(root);
+  mkdirSync(sandbox, { recursive: true });
+
+  return {
+    name: `local:${sandbox}`,
+    exec: (command, options, stdinContent) =>
+      runProcess(["sh", "-c", command], {
+        ...options,
+        cwd: sandbox,
+        env: { ...process.env, HOME: sandbox },
+        stdinContent,
+      }),
+    transfer: async (transfer) =>
+      transfer.direction === "upload"
+        ? copyLocal(
+            resolve(transfer.source),
+            resolve(sandbox, transfer.destination),
+            transfer
+          )
+        : copyLocal(
+            resolve(sandbox, transfer.source),
+            resolve(transfer.destination),
+            transfer
+          ),
+  };
+}
+
+/**
+ * Create a transport that runs commands inside a local container
+ * Useful to test against a real distro (and docker) without a VPS
+ */
+export function createContainerTransport(container: string): Transport {
+  // Run an argv array in the container (no shell involved)
+  const execArgv = (argv: string[]) =>
+    runProcess(["docker", "exec", container, ...argv]);
+
+  return {
+    name: `container:${container}`,
+    exec: (command, options, stdinContent) =>
+      runProcess(
+        [
+          "docker",
+          "exec",
+          options.tty ? "-it" : "-i",
+          container,
+          "sh",
+          "-c",
+          command,
+        ],
+        {
+          ...options,
+          stdinContent,
+        }
+      ),
+    transfer: async (transfer) => {
+      const source = transfer.recursive
+        ? `${transfer.source}/.`
+        : transfer.source;
+      const [from, to] =
+        transfer.direction === "upload"
+          ? [source, `${container}:${transfer.destination}`]
+          : [`${container}:${source}`, transfer.destination];
+      const remotePath =
+        transfer.direction === "upload"
+          ? transfer.destination
+          : transfer.source;
+
+      if (transfer.direction === "upload" && transfer.delete) {
+        await execArgv(["rm", "-rf", transfer.destination]);
+      }
+
+      const result = await runProcess(["docker", "cp", from, to]);
+      if (!result.success) {
+        return result;
+      }
+
+      if (transfer.direction === "upload" && transfer.mode) {
+        await execArgv([
+          "find",
+          remotePath,
+          "-type",
+          "f",
+          "-exec",
+          "chmod",
+          transfer.mode,
+          "{}",
+          "+",
+        ]);
+      }
+      if (transfer.direction === "upload" && transfer.owner) {
+        await execArgv(["chown", "-R", transfer.owner, remotePath]);
+      }
+      if (transfer.direction === "download" && transfer.mode) {
+        chmodFiles(transfer.destination, transfer.mode);
+      }
+
+      const localPath =
+        transfer.direction === "upload"
+          ? transfer.source
+          : transfer.destination;
+      transfer.onProgress?.({ bytes: totalSize(localPath), percent: 100 });
+      return result;
+    },
+  };
+}
+
+/**
+ * Strip the typed error from a result (it refers back to the result and
+ * isn't serializable); replays derive it again from the exit code
+ */
+function recordedResult(result: SSHResult): SSHResult {
+  const { error: _error, ...recorded } = result;
+  return recorded;
+}
+
+/**
+ * Wrap a transport and record every command with its result
+ * The recording can be saved and replayed with createReplayTransport
+ */
+export function createRecordingTransport(
+  inner: Transport
+): Transport & { calls: TransportCall[]; save(path: string): void } {
+  const calls: TransportCall[] = [];
+
+  return {
+    name: `recording:${inner.name}`,
+    calls,
+    exec: async (command, options, stdinContent) => {
+      const result = await inner.exec(command, options, stdinContent);
+      const fileContent =
+        options.stdoutFile && existsSync(options.stdoutFile)
+          ? readFileSync(options.stdoutFile).toString("base64")
+          : undefined;
+      calls.push({
+        command,
+        stdinContent,
+        fileContent,
+        result: recordedResult(result),
+      });
+      return result;
+    },
+    transfer: async (transfer, options) => {
+      const result = await inner.transfer(transfer, options);
+      const localPath =
+        transfer.direction === "upload"
+          ? transfer.source
+          : transfer.destination;
+      const fileContent =
+        !transfer.recursive && existsSync(localPath)
+          ? readFileSync(localPath).toString("base64")
+          : undefined;
+      calls.push({
+        command: describeTransfer(transfer),
+        fileContent,
+        result: recordedResult(result),
+      });
+      return result;
+    },
+    save: (path) => {
+      writeFileSync(path, `${JSON.stringify(calls, null, 2)}\n`);
+    },
+  };
+}
+
+/**
+ * Create a fake transport that replays recorded calls in order
+ * Throws when a command differs from the recording, so unexpected
+ * remote commands fail loudly
+ */
+export function createReplayTransport(
+  recording: TransportCall[]
+): Transport & { calls: TransportCall[]; pending(): TransportCall[] } {
+  const queue = [...recording];
+  const calls: TransportCall[] = [];
+
+  const next = (command: string): TransportCall => {
+    const expected = queue.shift();
+    if (!expected) {
+      throw new Error(
+        `Unexpected remote command (recording exhausted):\n${command}`
+      );
+    }
+    if (expected.command !== command) {
+      throw new Error(
+        `Unexpected remote command:\n${command}\nExpected:\n${expected.command}`
+      );
+    }
+    return expected;
+  };
+
+  return {
+    name: "replay",
+    calls,
+    pending: () => [...queue],
+    exec: async (command, options, stdinContent) => {
+      const expected = next(command);
+      const result: SSHResult = { ...expected.result };
+      // Stdout went to the file instead of the result
+      if (options.stdoutFile) {
+        mkdirSync(dirname(options.stdoutFile), { recursive: true });
+        writeFileSync(
+          options.stdoutFile,
+          Buffer.from(expected.fileContent ?? "", "base64")
+        );
+      }
+      calls.push({ command, stdinContent, result });
+      replayOutput(result, options);
+      return result;
+    },
+    transfer: async (transfer) => {
+      const command = describeTransfer(transfer);
+      const expected = next(command);
+      const result: SSHResult = { ...expected.result };
+
+      let fileContent: string | undefined;
+      if (transfer.direction === "upload" && !transfer.recursive) {
+        fileContent = readFileSync(transfer.source).toString("base64");
+      }
+      if (transfer.direction === "download" && expected.fileContent) {
+        mkdirSync(dirname(transfer.destination), { recursive: true });
+        writeFileSync(
+          transfer.destination,
+          Buffer.from(expected.fileContent, "base64")
+        );
+      }
+
+      calls.push({ command, fileContent, result });
+      if (result.success) {
+        transfer.onProgress?.({ bytes: 0, percent: 100 });
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Load a recording saved by a recording transport
+ */
+export function loadRecording(path: string): TransportCall[] {
+  return JSON.parse(readFileSync(path, "utf8")) as TransportCall[];
+}
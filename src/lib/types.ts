@@ -1,12 +1,38 @@
+import type { SSHError } from "./errors.js";
+
 /**
- * VPS Configuration loaded from .env file
+ * VPS Configuration loaded from the inventory file or .env file
  */
 export interface VPSConfig {
+  vpsName?: string;
   vpsHost: string;
   vpsUser: string;
   vpsHostname?: string;
   vpsTimezone?: string;
   vpsSshPubkey?: string;
+  // Bastion hosts to jump through, in order ([user@]host[:port])
+  vpsJump?: string[];
+}
+
+/**
+ * Host entry declared in the inventory file
+ */
+export interface InventoryHost {
+  host: string;
+  user: string;
+  hostname?: string;
+  timezone?: string;
+  pubkey?: string;
+  // A single bastion or a list of hops ([user@]host[:port])
+  jump?: string | string[];
+}
+
+/**
+ * Inventory file structure (bin/inventory.yml)
+ */
+export interface Inventory {
+  default?: string;
+  hosts: Record<string, InventoryHost>;
 }
 
 /**
@@ -19,7 +45,26 @@ export interface SSHOptions {
   quiet?: boolean;
   batchMode?: boolean;
   connectTimeout?: number;
+  // Kill the command when it runs longer than this (seconds)
+  timeout?: number;
+  // Retry transient connection failures (false disables retries)
+  retry?: RetryPolicy | false;
+  multiplex?: boolean;
+  // Bastion hosts to jump through, in order ([user@]host[:port])
+  proxyJump?: string[];
   additionalOpts?: string[];
+  // Forward remote output to the terminal while the command runs
+  stream?: boolean;
+  // Allocate a pseudo-terminal and connect the local terminal to the
+  // command (interactive programs; output isn't captured)
+  tty?: boolean;
+  // Stream a local file to the command's stdin (e.g. an archive to restore)
+  stdinFile?: string;
+  // Write the command's stdout to a local file instead of capturing it
+  stdoutFile?: string;
+  // Called for every complete line of output while the command runs
+  onStdoutLine?: (line: string) => void;
+  onStderrLine?: (line: string) => void;
 }
 
 /**
@@ -30,6 +75,100 @@ export interface SSHResult {
   stderr: string;
   exitCode: number;
   success: boolean;
+  // Set when the command was killed after its timeout
+  timedOut?: boolean;
+  // Typed cause of the failure (unset on success)
+  error?: SSHError;
+}
+
+/**
+ * Retry policy for transient connection failures
+ * Waits delay ms before the first retry, multiplied by factor for every
+ * further retry (up to maxDelay ms)
+ */
+export interface RetryPolicy {
+  retries: number;
+  delay?: number;
+  factor?: number;
+  maxDelay?: number;
+}
+
+/**
+ * File transfer progress (bytes transferred so far)
+ */
+export interface TransferProgress {
+  bytes: number;
+  percent: number;
+  rate?: string;
+}
+
+/**
+ * File transfer options
+ */
+export interface TransferOptions {
+  // Mode applied to transferred files, e.g. "600" (defaults to source mode)
+  mode?: string;
+  // Owner applied to uploaded files, e.g. "root:root" (requires sudo)
+  owner?: string;
+  // Remove files at the destination that don't exist at the source (syncDir)
+  delete?: boolean;
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+/**
+ * File transfer between the local machine and the remote host
+ */
+export interface FileTransfer extends TransferOptions {
+  direction: "upload" | "download";
+  // Local path for uploads, remote path for downloads
+  source: string;
+  // Remote path for uploads, local path for downloads
+  destination: string;
+  // Transfer the contents of a directory (trailing slash semantics of rsync)
+  recursive?: boolean;
+}
+
+/**
+ * Executes remote commands (over SSH, in a local sandbox or as a fake)
+ */
+export interface Transport {
+  name: string;
+  exec(
+    command: string,
+    options: SSHOptions,
+    stdinContent?: string
+  ): Promise<SSHResult>;
+  transfer(transfer: FileTransfer, options: SSHOptions): Promise<SSHResult>;
+}
+
+/**
+ * Remote command (or file transfer) captured by the recording transport
+ */
+export interface TransportCall {
+  command: string;
+  stdinContent?: string;
+  // Base64 content of a transferred file, or of the stdout file of a command
+  fileContent?: string;
+  result: SSHResult;
+}
+
+/**
+ * SSH host key (as pinned in or fetched for the known_hosts store)
+ */
+export interface HostKey {
+  type: string;
+  key: string;
+  fingerprint: string;
+  comment?: string;
+}
+
+/**
+ * Result of comparing presented host keys with pinned host keys
+ */
+export interface HostKeyVerification {
+  status: "match" | "unpinned" | "changed";
+  pinned: HostKey[];
+  current: HostKey[];
 }
 
 /**
@@ -69,9 +208,77 @@ export interface SSHConfig {
 }
 
 /**
- * Docker Compose service types
+ * Docker Compose service types (names of registered service templates)
+ */
+export type ServiceType = string;
+
+/**
+ * Parameter of a service template (passed as key=value to compose add)
+ * Parameters without a default value are required
+ */
+export interface TemplateParam {
+  name: string;
+  description: string;
+  default?: string;
+}
+
+/**
+ * Context a service template is rendered with
+ */
+export interface TemplateContext {
+  projectName: string;
+  alias: string;
+  composeHome: string;
+  projectDir: string;
+  params: Record<string, string>;
+  config: VPSConfig;
+}
+
+/**
+ * Service template used by compose add
+ * Built-in templates live in src/lib/templates/, custom templates are
+ * modules in the templates directory with a ServiceTemplate default export
+ */
+export interface ServiceTemplate {
+  name: ServiceType;
+  description: string;
+  params?: TemplateParam[];
+  // Compose service definition added under the alias
+  service(
+    context: TemplateContext
+  ): DockerComposeService | Promise<DockerComposeService>;
+  // Named volumes the service uses
+  volumes?(context: TemplateContext): string[];
+  // Remote directories to create before the service is added
+  directories?(context: TemplateContext): string[];
+  // Files to create on the VPS (path to content), existing files are kept
+  files?(context: TemplateContext): Record<string, string>;
+  // Ports to allow in the VPS firewall, e.g. "443/tcp"
+  firewall?(context: TemplateContext): string[];
+  // Hints shown after the service was added
+  hints?(context: TemplateContext): string[];
+}
+
+/**
+ * Route of the reverse proxy from a domain to a service port
+ */
+export interface ProxyRoute {
+  service: string;
+  port: number;
+}
+
+/**
+ * Reverse proxy settings (proxy.yml next to the generated Caddyfile)
  */
-export type ServiceType = "bun" | "mysql";
+export interface ProxySettings {
+  // ACME account email
+  email?: string;
+  // ACME directory URL, or "internal" for locally signed certificates
+  acmeCa?: string;
+  // CA certificate the ACME directory is trusted with (path in the container)
+  acmeCaRoot?: string;
+  routes: Record<string, ProxyRoute>;
+}
 
 /**
  * Docker Compose service configuration
@@ -91,6 +298,34 @@ export interface ComposeProject {
   composeFile: string;
 }
 
+/**
+ * Docker Compose project overview (compose list)
+ */
+export interface ComposeProjectSummary extends ComposeProject {
+  // null when the compose file can't be parsed
+  services: number | null;
+  running: number;
+}
+
+/**
+ * State of a service container (from docker compose ps)
+ */
+export interface ComposeContainerStatus {
+  service: string;
+  container: string;
+  image: string;
+  // e.g. running, exited, restarting ("not created" without a container)
+  state: string;
+  // healthy, unhealthy, starting or "" without a healthcheck
+  health: string;
+  // e.g. "Up 2 hours (healthy)"
+  status: string;
+  // e.g. "2 hours" ("" when the container isn't running)
+  uptime: string;
+  exitCode: number;
+  ports: string[];
+}
+
 /**
  * Provisioning configuration
  */
@@ -115,9 +350,11 @@ export interface ExposedPort {
  */
 export interface DockerComposeConfig {
   version?: string;
+  name?: string;
   services?: Record<string, DockerComposeService>;
   networks?: Record<string, DockerComposeNetwork>;
   volumes?: Record<string, DockerComposeVolume>;
+  secrets?: Record<string, DockerComposeSecret>;
 }
 
 /**
@@ -134,7 +371,12 @@ export interface DockerComposeService {
   networks?: string[];
   restart?: string;
   environment?: Record<string, string> | string[];
+  env_file?: string | string[];
+  secrets?: Array<
+    string | { source: string; target?: string; uid?: string; gid?: string }
+  >;
   ports?: string[];
+  labels?: Record<string, string>;
   healthcheck?: {
     test: string[];
     interval?: string;
@@ -156,3 +398,42 @@ export interface DockerComposeNetwork {
 export interface DockerComposeVolume {
   // Named volumes are typically empty objects
 }
+
+/**
+ * Docker Compose secret (mounted into services at /run/secrets/<name>)
+ */
+export interface DockerComposeSecret {
+  file?: string;
+  environment?: string;
+}
+
+/**
+ * Value encrypted with AES-256-GCM (base64 encoded parts)
+ */
+export interface EncryptedValue {
+  iv: string;
+  data: string;
+  tag: string;
+}
+
+/**
+ * Contents of the local secrets vault file
+ * The key is derived from a passphrase (scrypt) or a key file, e.g. an SSH
+ * private key (HKDF); check is a known value to detect a wrong key
+ */
+export interface SecretsVaultFile {
+  version: 1;
+  kdf: "scrypt" | "keyfile";
+  salt: string;
+  check: EncryptedValue;
+  secrets: Record<string, EncryptedValue & { updated: string }>;
+}
+
+/**
+ * Unlocked secrets vault
+ */
+export interface SecretsVault {
+  path: string;
+  file: SecretsVaultFile;
+  key: Buffer;
+}